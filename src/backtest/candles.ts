@@ -0,0 +1,43 @@
+// src/backtest/candles.ts
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { PriceCandle, PriceCandleSchema } from '../types/technical';
+
+const CANDLE_FIELDS = ['timestamp', 'open', 'high', 'low', 'close', 'volume'] as const;
+
+/**
+ * Reads candles from a local file so a backtest can be rerun on exactly the
+ * same data. Accepts a JSON array of `PriceCandle` (for example a saved
+ * `technicalAnalysis.series[timeframe].candles`) or a CSV with a
+ * `timestamp,open,high,low,close,volume` header. Candles are returned
+ * sorted by timestamp.
+ */
+export async function loadCandles(path: string): Promise<PriceCandle[]> {
+  const content = await fs.readFile(path, 'utf8');
+  const candles = path.toLowerCase().endsWith('.csv')
+    ? parseCsv(content)
+    : z.array(PriceCandleSchema).parse(JSON.parse(content));
+  return [...candles].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function saveCandles(path: string, candles: PriceCandle[]): Promise<void> {
+  await fs.writeFile(path, JSON.stringify(candles, null, 2));
+}
+
+function parseCsv(content: string): PriceCandle[] {
+  const [header, ...rows] = content.trim().split(/\r?\n/);
+  const columns = header.split(',').map(column => column.trim().toLowerCase());
+  const positions = CANDLE_FIELDS.map(field => columns.indexOf(field));
+  const missing = CANDLE_FIELDS.filter((_, i) => positions[i] === -1);
+  if (missing.length) {
+    throw new Error(`Candle CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  return rows
+    .filter(row => row.trim())
+    .map(row => {
+      const cells = row.split(',');
+      const candle = Object.fromEntries(CANDLE_FIELDS.map((field, i) => [field, Number(cells[positions[i]])]));
+      return PriceCandleSchema.parse(candle);
+    });
+}
@@ -0,0 +1,105 @@
+// src/backtest/engine.ts
+import { PriceCandle } from '../types/technical';
+import { BacktestOptions, BacktestResult, BacktestTrade, ExitReason, Strategy } from '../types/backtest';
+import { computeMetrics, inferPeriodsPerYear } from './metrics';
+
+interface OpenPosition {
+  entryIndex: number;
+  entryPrice: number;
+  units: number;
+  /** Capital committed, including the entry fee */
+  cost: number;
+}
+
+/**
+ * Replays the candles bar by bar. The strategy decides at each close and
+ * orders fill at the next candle's open, moved against the trade by
+ * `slippage`, with `feeRate` charged on both sides. Stop-loss and
+ * take-profit are checked against each bar's range; when both are hit in
+ * the same bar the stop is assumed to fill first. A position still open
+ * after the last candle is closed at its close. Long only.
+ */
+export function runBacktest(
+  candles: PriceCandle[],
+  strategy: Strategy,
+  options: BacktestOptions = {}
+): BacktestResult {
+  const { initialCapital = 1000, feeRate = 0.001, slippage = 0.002, stopLoss, takeProfit } = options;
+  const trades: BacktestTrade[] = [];
+  const equity: number[] = [];
+
+  let cash = initialCapital;
+  let position: OpenPosition | null = null;
+  let pending: 'enter' | 'exit' | null = null;
+  let barsInPosition = 0;
+
+  const close = (index: number, price: number, reason: ExitReason) => {
+    if (!position) return;
+    const proceeds = position.units * price * (1 - feeRate);
+    trades.push({
+      entryTimestamp: candles[position.entryIndex].timestamp,
+      exitTimestamp: candles[index].timestamp,
+      entryPrice: position.entryPrice,
+      exitPrice: price,
+      return: proceeds / position.cost - 1,
+      pnl: proceeds - position.cost,
+      bars: index - position.entryIndex,
+      exitReason: reason
+    });
+    cash += proceeds;
+    position = null;
+  };
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+
+    // Orders decided at the previous close fill at this open
+    if (pending === 'enter' && !position && cash > 0) {
+      const entryPrice = candle.open * (1 + slippage);
+      position = { entryIndex: i, entryPrice, units: (cash * (1 - feeRate)) / entryPrice, cost: cash };
+      cash = 0;
+    } else if (pending === 'exit' && position) {
+      close(i, candle.open * (1 - slippage), 'signal');
+    }
+    pending = null;
+
+    if (position) {
+      const stopPrice = stopLoss !== undefined ? position.entryPrice * (1 - stopLoss) : null;
+      const targetPrice = takeProfit !== undefined ? position.entryPrice * (1 + takeProfit) : null;
+      // A gap through the level fills at the open rather than the level
+      if (stopPrice !== null && candle.low <= stopPrice) {
+        close(i, Math.min(candle.open, stopPrice) * (1 - slippage), 'stopLoss');
+      } else if (targetPrice !== null && candle.high >= targetPrice) {
+        close(i, Math.max(candle.open, targetPrice) * (1 - slippage), 'takeProfit');
+      }
+    }
+
+    if (position) barsInPosition++;
+    equity.push(cash + (position ? position.units * candle.close : 0));
+
+    if (i >= (strategy.warmup ?? 0) && i < candles.length - 1) {
+      const action = strategy.decide(candles.slice(0, i + 1), position !== null);
+      if (action === 'enter' && !position) pending = 'enter';
+      if (action === 'exit' && position) pending = 'exit';
+    }
+  }
+
+  if (position) {
+    const last = candles.length - 1;
+    close(last, candles[last].close * (1 - slippage), 'end');
+    equity[last] = cash;
+  }
+
+  return {
+    strategy: strategy.name,
+    trades,
+    equity,
+    metrics: computeMetrics({
+      trades,
+      equity,
+      initialCapital,
+      exposure: candles.length ? barsInPosition / candles.length : 0,
+      periodsPerYear: options.periodsPerYear ?? inferPeriodsPerYear(candles)
+    })
+  };
+}
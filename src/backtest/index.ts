@@ -0,0 +1,6 @@
+// src/backtest/index.ts
+// Bar-by-bar replay of candle history against trading strategies.
+export { runBacktest } from './engine';
+export { computeMetrics, inferPeriodsPerYear, maxDrawdown, sharpeRatio } from './metrics';
+export { patternStrategy, rsiStrategy, trendStrategy } from './strategies';
+export { loadCandles, saveCandles } from './candles';
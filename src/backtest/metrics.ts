@@ -0,0 +1,66 @@
+// src/backtest/metrics.ts
+import { BacktestMetrics, BacktestTrade } from '../types/backtest';
+import { PriceCandle } from '../types/technical';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export function computeMetrics(input: {
+  trades: BacktestTrade[];
+  equity: number[];
+  initialCapital: number;
+  exposure: number;
+  periodsPerYear: number;
+}): BacktestMetrics {
+  const { trades, equity, initialCapital, exposure, periodsPerYear } = input;
+  const returns = trades.map(trade => trade.return);
+  const wins = returns.filter(value => value > 0);
+  const losses = returns.filter(value => value <= 0);
+  const grossProfit = trades.filter(trade => trade.pnl > 0).reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = -trades.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum + trade.pnl, 0);
+
+  return {
+    trades: trades.length,
+    winRate: trades.length ? wins.length / trades.length : 0,
+    expectancy: mean(returns),
+    averageWin: mean(wins),
+    averageLoss: mean(losses),
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    totalReturn: equity.length ? equity[equity.length - 1] / initialCapital - 1 : 0,
+    maxDrawdown: maxDrawdown(equity),
+    sharpe: sharpeRatio(equity, periodsPerYear),
+    exposure
+  };
+}
+
+export function maxDrawdown(equity: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const value of equity) {
+    peak = Math.max(peak, value);
+    if (peak > 0) worst = Math.max(worst, (peak - value) / peak);
+  }
+  return worst;
+}
+
+export function sharpeRatio(equity: number[], periodsPerYear: number): number {
+  const returns = equity.slice(1).map((value, i) => equity[i] > 0 ? value / equity[i] - 1 : 0);
+  if (returns.length < 2) return 0;
+  const average = mean(returns);
+  const deviation = Math.sqrt(returns.reduce((sum, value) => sum + (value - average) ** 2, 0) / (returns.length - 1));
+  return deviation > 0 ? (average / deviation) * Math.sqrt(periodsPerYear) : 0;
+}
+
+/**
+ * Bars per year from the median spacing of the candles, whose timestamps
+ * are unix seconds as Birdeye returns them.
+ */
+export function inferPeriodsPerYear(candles: PriceCandle[]): number {
+  const gaps = candles.slice(1).map((candle, i) => candle.timestamp - candles[i].timestamp).filter(gap => gap > 0);
+  if (gaps.length === 0) return 365;
+  const sorted = [...gaps].sort((a, b) => a - b);
+  return SECONDS_PER_YEAR / sorted[Math.floor(sorted.length / 2)];
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
@@ -0,0 +1,76 @@
+// src/backtest/strategies.ts
+// Strategies built on the same indicator, trend and pattern code that
+// TechnicalAnalysisService reports, so their verdicts can be tested.
+import { Strategy, StrategyAction } from '../types/backtest';
+import { PriceCandle } from '../types/technical';
+import { latest, rsi } from '../indicators';
+import { detectCandlestickPatterns, detectChartPatterns } from '../patterns';
+import { determineTrend } from '../services/technical';
+
+/**
+ * Enters when the `trend` verdict for `period` turns bullish and exits when
+ * it turns bearish. Period 20 matches `trend.shortTerm`, 50 `trend.mediumTerm`.
+ */
+export function trendStrategy(options: { period?: number } = {}): Strategy {
+  const { period = 50 } = options;
+  return {
+    name: `trend(${period})`,
+    warmup: period,
+    decide: history => {
+      const verdict = determineTrend(history, period);
+      return verdict === 'bullish' ? 'enter' : verdict === 'bearish' ? 'exit' : 'hold';
+    }
+  };
+}
+
+/**
+ * Buys when RSI drops below `oversold` and sells once it rises above
+ * `overbought`, the thresholds `trend.reasoning` calls out.
+ */
+export function rsiStrategy(options: { period?: number; oversold?: number; overbought?: number } = {}): Strategy {
+  const { period = 14, oversold = 30, overbought = 70 } = options;
+  return {
+    name: `rsi(${period}, ${oversold}/${overbought})`,
+    warmup: period + 1,
+    decide: history => {
+      const value = latest(rsi(history, period));
+      if (value === null) return 'hold';
+      return value < oversold ? 'enter' : value > overbought ? 'exit' : 'hold';
+    }
+  };
+}
+
+/**
+ * Trades chart patterns (and, with `candlesticks`, candlestick signals) as
+ * they complete on the latest candle: bullish ones enter, bearish ones exit.
+ */
+export function patternStrategy(options: { minConfidence?: number; candlesticks?: boolean } = {}): Strategy {
+  const { minConfidence = 0.6, candlesticks = false } = options;
+  return {
+    name: `patterns(${minConfidence}${candlesticks ? ', candlesticks' : ''})`,
+    warmup: 30,
+    decide: history => {
+      const last = history[history.length - 1];
+      const implications = [
+        ...detectChartPatterns(history, { maxAge: 0 })
+          .filter(pattern => pattern.endTimestamp === last.timestamp && pattern.confidence >= minConfidence)
+          .map(pattern => pattern.implication),
+        ...(candlesticks ? completedCandlesticks(history, last) : [])
+      ];
+      return actionFor(implications);
+    }
+  };
+}
+
+function completedCandlesticks(history: PriceCandle[], last: PriceCandle) {
+  return detectCandlestickPatterns(history, { lookback: 1 })
+    .filter(signal => signal.timestamp === last.timestamp)
+    .map(signal => signal.implication);
+}
+
+// Conflicting signals on the same bar cancel out
+function actionFor(implications: string[]): StrategyAction {
+  const bullish = implications.filter(implication => implication === 'bullish').length;
+  const bearish = implications.filter(implication => implication === 'bearish').length;
+  return bullish > bearish ? 'enter' : bearish > bullish ? 'exit' : 'hold';
+}
@@ -0,0 +1,94 @@
+// src/cache/file.ts
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { CacheEntry, CacheStore } from '../types/cache';
+import { Clock } from '../types/service';
+import { deserialize, serialize } from '../utils/serialize';
+
+interface StoredEntry {
+  key: string;
+  entry: CacheEntry;
+}
+
+/**
+ * Filesystem store writing one JSON file per key under `dir`, so cached
+ * analyses survive process restarts. Expired files are removed on read.
+ */
+export class FileCacheStore implements CacheStore {
+  private ready?: Promise<void>;
+
+  constructor(
+    private readonly dir: string,
+    private readonly clock: Clock = Date.now
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const stored = await this.read(this.pathFor(key));
+    if (!stored || stored.key !== key) return undefined;
+
+    if (stored.entry.expiresAt <= this.clock()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return stored.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.ensureDir();
+
+    const path = this.pathFor(key);
+    // Unique per write, so concurrent sets of the same key never share a temp file
+    const tmpPath = `${path}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpPath, serialize({ key, entry }));
+    // Rename is atomic, so concurrent readers never see a half-written file
+    await fs.rename(tmpPath, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return;
+    }
+
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(async file => {
+          const path = join(this.dir, file);
+          if (prefix) {
+            const stored = await this.read(path);
+            if (stored && !stored.key.startsWith(prefix)) return;
+          }
+          await fs.rm(path, { force: true });
+        })
+    );
+  }
+
+  private pathFor(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(this.dir, `${hash}.json`);
+  }
+
+  private async read(path: string): Promise<StoredEntry | undefined> {
+    try {
+      return deserialize<StoredEntry>(await fs.readFile(path, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private ensureDir(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.dir, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+}
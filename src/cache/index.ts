@@ -0,0 +1,6 @@
+// src/cache/index.ts
+export { MemoryCacheStore } from './memory';
+export { FileCacheStore } from './file';
+export { SqliteCacheStore } from './sqlite';
+export type { SqliteDatabase } from './sqlite';
+export { SectionCache } from './section';
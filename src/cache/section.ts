@@ -0,0 +1,100 @@
+// src/cache/section.ts
+import { CacheOptions, CacheSection, CacheStore } from '../types/cache';
+import { Logger } from '../types/logger';
+import { Clock } from '../types/service';
+import { silentLogger } from '../utils/logger';
+import { SharedLoad, joinSharedLoad, startSharedLoad } from '../utils/usage';
+import { MemoryCacheStore } from './memory';
+
+const DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * One service's view of the shared cache store: namespaces keys by section,
+ * applies the section TTL and serves stale entries while revalidating.
+ */
+export class SectionCache<T> {
+  private readonly store: CacheStore;
+  private readonly ttl: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly inFlight = new Map<string, SharedLoad<T>>();
+
+  constructor(
+    private readonly section: CacheSection,
+    options: CacheOptions = {},
+    ttlOverride?: number,
+    private readonly logger: Logger = silentLogger,
+    private readonly clock: Clock = Date.now
+  ) {
+    this.store = options.store || new MemoryCacheStore(undefined, clock);
+    this.ttl = ttlOverride ?? options.ttl?.[section] ?? DEFAULT_TTL;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+  }
+
+  /**
+   * Returns the cached value for `key`, calling `load` when it is missing.
+   * A value past its TTL but inside the stale window is returned immediately
+   * and refreshed in the background. Values rejected by `shouldCache` are
+   * returned but not stored.
+   */
+  async getOrLoad(
+    key: string,
+    load: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const entry = await this.store.get<T>(this.storeKey(key));
+
+    if (entry) {
+      const age = this.clock() - entry.storedAt;
+      if (age < this.ttl) {
+        return entry.value;
+      }
+      if (age < this.ttl + this.staleWhileRevalidate) {
+        this.refresh(key, load, shouldCache).catch(error => {
+          this.logger.warn('Background cache refresh failed', { section: this.section, key, error });
+        });
+        return entry.value;
+      }
+    }
+
+    return this.refresh(key, load, shouldCache);
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const storedAt = this.clock();
+    await this.store.set(this.storeKey(key), {
+      value,
+      storedAt,
+      expiresAt: storedAt + this.ttl + this.staleWhileRevalidate
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear(`${this.section}:`);
+  }
+
+  private refresh(
+    key: string,
+    load: () => Promise<T>,
+    shouldCache: (value: T) => boolean
+  ): Promise<T> {
+    // Concurrent callers for the same key share one load, and each is charged its LLM usage
+    const pending = this.inFlight.get(key);
+    if (pending) return joinSharedLoad(pending);
+
+    const shared = startSharedLoad(() => load()
+      .then(async value => {
+        if (shouldCache(value)) {
+          await this.set(key, value);
+        }
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key)));
+
+    this.inFlight.set(key, shared);
+    return shared.promise;
+  }
+
+  private storeKey(key: string): string {
+    return `${this.section}:${key}`;
+  }
+}
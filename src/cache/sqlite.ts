@@ -0,0 +1,96 @@
+// src/cache/sqlite.ts
+import { CacheEntry, CacheStore } from '../types/cache';
+import { Clock } from '../types/service';
+import { deserialize, serialize } from '../utils/serialize';
+
+/**
+ * The subset of a synchronous SQLite handle this store needs. Both
+ * `better-sqlite3`'s `Database` and `node:sqlite`'s `DatabaseSync` satisfy it,
+ * so the package does not pin a driver.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    get(...params: unknown[]): unknown;
+    run(...params: unknown[]): unknown;
+  };
+}
+
+interface CacheRow {
+  value: string;
+  stored_at: number;
+  expires_at: number;
+}
+
+/**
+ * SQLite store keeping all entries in a single table, suited to workers that
+ * share a cache file across restarts.
+ */
+export class SqliteCacheStore implements CacheStore {
+  constructor(
+    private readonly db: SqliteDatabase,
+    private readonly table: string = 'token_analyzer_cache',
+    private readonly clock: Clock = Date.now
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid cache table name: ${table}`);
+    }
+
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (` +
+      `key TEXT PRIMARY KEY, ` +
+      `value TEXT NOT NULL, ` +
+      `stored_at INTEGER NOT NULL, ` +
+      `expires_at INTEGER NOT NULL)`
+    );
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const row = this.db
+      .prepare(`SELECT value, stored_at, expires_at FROM ${this.table} WHERE key = ?`)
+      .get(key) as CacheRow | undefined;
+    if (!row) return undefined;
+
+    if (row.expires_at <= this.clock()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return {
+      value: deserialize<T>(row.value),
+      storedAt: row.stored_at,
+      expiresAt: row.expires_at
+    };
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.table} (key, value, stored_at, expires_at) VALUES (?, ?, ?, ?) ` +
+        `ON CONFLICT(key) DO UPDATE SET value = excluded.value, ` +
+        `stored_at = excluded.stored_at, expires_at = excluded.expires_at`
+      )
+      .run(key, serialize(entry.value), entry.storedAt, entry.expiresAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (!prefix) {
+      this.db.prepare(`DELETE FROM ${this.table}`).run();
+      return;
+    }
+
+    // substr() avoids LIKE wildcards in the prefix
+    this.db
+      .prepare(`DELETE FROM ${this.table} WHERE substr(key, 1, ?) = ?`)
+      .run(prefix.length, prefix);
+  }
+
+  /** Drops every expired row; entries are otherwise only evicted when read */
+  async prune(): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE expires_at <= ?`).run(this.clock());
+  }
+}
@@ -0,0 +1,4 @@
+// src/chart/index.ts
+// SVG charts of candles, indicators and analysis annotations, rendered without a browser.
+export { renderChart } from './render';
+export { escapeXml, formatPrice, niceTicks } from './svg';
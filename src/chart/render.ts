@@ -0,0 +1,485 @@
+// src/chart/render.ts
+import { PriceCandle, TechnicalAnalysis } from '../types/technical';
+import { ChartOptions, ChartTheme } from '../types/chart';
+import {
+  DARK_CHART_THEME,
+  DEFAULT_CHART_CANDLES,
+  DEFAULT_CHART_HEIGHT,
+  DEFAULT_CHART_WIDTH,
+  LIGHT_CHART_THEME
+} from '../constants/chart';
+import { computeIndicatorSeries } from '../indicators';
+import { element, escapeXml, formatPrice, formatTime, linePath, niceTicks, text } from './svg';
+
+const MARGIN = { top: 36, right: 72, bottom: 24, left: 8 };
+const PANE_GAP = 12;
+// Relative pane heights
+const PANE_WEIGHTS = { price: 5, volume: 1.2, rsi: 1.6, macd: 1.6 };
+const FONT_SIZE = 11;
+
+// Numbers renders that are not given an `id`
+let renderCount = 0;
+
+type PaneName = keyof typeof PANE_WEIGHTS;
+
+interface Pane {
+  top: number;
+  height: number;
+  /** Maps a value in the pane's range to its y coordinate */
+  y(value: number): number;
+}
+
+interface ChartContext {
+  /** Prefix of every id in the SVG */
+  id: string;
+  theme: ChartTheme;
+  candles: PriceCandle[];
+  /** Indicator series for the visible candles */
+  series: Record<string, number[]>;
+  analysis: TechnicalAnalysis | null;
+  timeframe: string | undefined;
+  left: number;
+  plotWidth: number;
+  /** Horizontal space per candle */
+  step: number;
+  x(index: number): number;
+  /** Visible candle index at or after the timestamp, null when outside the chart */
+  indexAt(timestamp: number): number | null;
+}
+
+/**
+ * Renders the candles as a self-contained SVG: candles with SMA20/50/200
+ * and EMA20 overlays, volume, RSI and MACD panes, and, when the analysis is
+ * given, its support/resistance zones, chart patterns with their targets,
+ * candlestick signals and divergences. Pass the primary timeframe's candles,
+ * e.g. `analysis.series[analysis.primaryTimeframe].candles`, since patterns
+ * and zones are located on them. Fonts are generic and nothing is fetched,
+ * so the output can be converted to PNG by any SVG rasterizer.
+ */
+export function renderChart(
+  candles: PriceCandle[],
+  analysis: TechnicalAnalysis | null = null,
+  options: ChartOptions = {}
+): string {
+  const width = options.width ?? DEFAULT_CHART_WIDTH;
+  const height = options.height ?? DEFAULT_CHART_HEIGHT;
+  const theme = resolveTheme(options.theme);
+  const sorted = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+
+  const body: string[] = [element('rect', { x: 0, y: 0, width, height, fill: theme.background })];
+  body.push(header(options.title, analysis, theme, width));
+
+  if (sorted.length === 0) {
+    body.push(text('No candle data', {
+      x: width / 2, y: height / 2, 'text-anchor': 'middle', fill: theme.mutedText, 'font-size': FONT_SIZE * 1.4
+    }));
+    return svg(width, height, body);
+  }
+
+  // Indicators use the full history so the visible window starts warmed up
+  const start = Math.max(sorted.length - (options.maxCandles ?? DEFAULT_CHART_CANDLES), 0);
+  const visible = sorted.slice(start);
+  const series = Object.fromEntries(
+    Object.entries(computeIndicatorSeries(sorted)).map(([name, values]) => [name, values.slice(start)])
+  );
+
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const step = plotWidth / visible.length;
+  const first = visible[0].timestamp;
+  const last = visible[visible.length - 1].timestamp;
+  const context: ChartContext = {
+    id: options.id?.replace(/[^A-Za-z0-9_-]/g, '-') || `chart-${++renderCount}`,
+    theme,
+    candles: visible,
+    series,
+    analysis,
+    timeframe: options.timeframe ?? analysis?.primaryTimeframe,
+    left: MARGIN.left,
+    plotWidth,
+    step,
+    x: index => MARGIN.left + (index + 0.5) * step,
+    indexAt: timestamp => timestamp < first || timestamp > last
+      ? null
+      : visible.findIndex(candle => candle.timestamp >= timestamp)
+  };
+
+  const enabled = { volume: true, rsi: true, macd: true, ...options.panes };
+  const names = (Object.keys(PANE_WEIGHTS) as PaneName[]).filter(name => name === 'price' || enabled[name]);
+  const available = height - MARGIN.top - MARGIN.bottom - PANE_GAP * (names.length - 1);
+  const totalWeight = names.reduce((sum, name) => sum + PANE_WEIGHTS[name], 0);
+
+  let top = MARGIN.top;
+  for (const name of names) {
+    const paneHeight = (available * PANE_WEIGHTS[name]) / totalWeight;
+    body.push(drawPane[name](context, top, paneHeight));
+    top += paneHeight + PANE_GAP;
+  }
+
+  body.push(timeAxis(context, height - MARGIN.bottom));
+  return svg(width, height, body);
+}
+
+const drawPane: Record<PaneName, (context: ChartContext, top: number, height: number) => string> = {
+  price: pricePane,
+  volume: volumePane,
+  rsi: rsiPane,
+  macd: macdPane
+};
+
+function pricePane(context: ChartContext, top: number, height: number): string {
+  const { id, theme, candles, series, analysis, x, step } = context;
+  let min = Math.min(...candles.map(candle => candle.low));
+  let max = Math.max(...candles.map(candle => candle.high));
+  const padding = (max - min) * 0.05 || Math.abs(max) * 0.01 || 1;
+  min -= padding;
+  max += padding;
+  const pane = scale(top, height, min, max);
+  const parts = [frame(context, pane, niceTicks(min, max, 6), formatPrice)];
+
+  const clipId = `${id}-price-pane`;
+  parts.push(element('clipPath', { id: clipId }, element('rect', {
+    x: context.left, y: top, width: context.plotWidth, height
+  })));
+  const clipped: string[] = [];
+  const labels: string[] = [];
+
+  for (const zone of analysis?.supportResistance.zones ?? []) {
+    if (zone.high < min || zone.low > max) continue;
+    const color = zone.type === 'support' ? theme.support : theme.resistance;
+    clipped.push(element('rect', {
+      x: context.left,
+      y: pane.y(zone.high),
+      width: context.plotWidth,
+      height: Math.max(pane.y(zone.low) - pane.y(zone.high), 1),
+      fill: color,
+      'fill-opacity': 0.06 + 0.14 * zone.strength
+    }));
+    clipped.push(horizontalLine(context, pane.y(zone.price), color, '4 3'));
+    labels.push(axisTag(context, pane.y(zone.price), `${zone.type === 'support' ? 'S' : 'R'} ${formatPrice(zone.price)}`, color));
+  }
+
+  // Drawn slowest first so the faster averages stay on top
+  const overlays = ['sma20', 'sma50', 'sma200', 'ema20'] as const;
+  for (const name of ['sma200', 'sma50', 'sma20', 'ema20'] as const) {
+    clipped.push(element('path', {
+      d: linePath(series[name].map((value, i) => [x(i), pane.y(value)])),
+      fill: 'none',
+      stroke: theme[name],
+      'stroke-width': 1.2
+    }));
+  }
+
+  const bodyWidth = Math.max(step * 0.7, 1);
+  candles.forEach((candle, i) => {
+    const color = candle.close >= candle.open ? theme.up : theme.down;
+    const bodyTop = pane.y(Math.max(candle.open, candle.close));
+    clipped.push(element('line', { x1: x(i), x2: x(i), y1: pane.y(candle.high), y2: pane.y(candle.low), stroke: color }));
+    clipped.push(element('rect', {
+      x: x(i) - bodyWidth / 2,
+      y: bodyTop,
+      width: bodyWidth,
+      height: Math.max(pane.y(Math.min(candle.open, candle.close)) - bodyTop, 1),
+      fill: color
+    }));
+  });
+
+  clipped.push(...patternAnnotations(context, pane));
+  clipped.push(...candlestickMarkers(context, pane));
+  clipped.push(...divergenceLines(context, pane, 'price'));
+  parts.push(element('g', { 'clip-path': `url(#${clipId})` }, clipped));
+  parts.push(...labels);
+
+  const close = candles[candles.length - 1].close;
+  const closeColor = close >= candles[candles.length - 1].open ? theme.up : theme.down;
+  parts.push(axisTag(context, pane.y(close), formatPrice(close), closeColor));
+
+  parts.push(legend(context, top, overlays.map(name => ({
+    label: `${name.toUpperCase()} ${formatValue(series[name], formatPrice)}`,
+    color: theme[name]
+  }))));
+  return element('g', {}, parts);
+}
+
+function volumePane(context: ChartContext, top: number, height: number): string {
+  const { theme, candles, x, step } = context;
+  const max = Math.max(...candles.map(candle => candle.volume));
+  const pane = scale(top, height, 0, max || 1);
+  const parts = [frame(context, pane, [], formatPrice)];
+
+  if (max <= 0) {
+    parts.push(text('No volume data (synthetic candles)', {
+      x: context.left + context.plotWidth / 2, y: top + height / 2 + FONT_SIZE / 3,
+      'text-anchor': 'middle', fill: theme.mutedText, 'font-size': FONT_SIZE
+    }));
+  } else {
+    const barWidth = Math.max(step * 0.7, 1);
+    candles.forEach((candle, i) => {
+      parts.push(element('rect', {
+        x: x(i) - barWidth / 2,
+        y: pane.y(candle.volume),
+        width: barWidth,
+        height: top + height - pane.y(candle.volume),
+        fill: candle.close >= candle.open ? theme.up : theme.down,
+        'fill-opacity': 0.5
+      }));
+    });
+    parts.push(axisLabel(context, top + FONT_SIZE, formatVolume(max)));
+  }
+
+  parts.push(legend(context, top, [{ label: `Volume ${formatVolume(candles[candles.length - 1].volume)}`, color: theme.mutedText }]));
+  return element('g', {}, parts);
+}
+
+function rsiPane(context: ChartContext, top: number, height: number): string {
+  const { theme, series, x } = context;
+  const pane = scale(top, height, 0, 100);
+  const parts = [frame(context, pane, [30, 50, 70], value => value.toFixed(0))];
+
+  parts.push(element('rect', {
+    x: context.left, y: pane.y(70), width: context.plotWidth, height: pane.y(30) - pane.y(70),
+    fill: theme.rsi, 'fill-opacity': 0.08
+  }));
+  parts.push(horizontalLine(context, pane.y(70), theme.mutedText, '3 3'));
+  parts.push(horizontalLine(context, pane.y(30), theme.mutedText, '3 3'));
+  parts.push(element('path', {
+    d: linePath(series.rsi.map((value, i) => [x(i), pane.y(value)])),
+    fill: 'none',
+    stroke: theme.rsi,
+    'stroke-width': 1.2
+  }));
+  parts.push(...divergenceLines(context, pane, 'rsi'));
+
+  parts.push(legend(context, top, [{ label: `RSI 14 ${formatValue(series.rsi, value => value.toFixed(1))}`, color: theme.rsi }]));
+  return element('g', {}, parts);
+}
+
+function macdPane(context: ChartContext, top: number, height: number): string {
+  const { theme, series, x, step } = context;
+  const values = [...series.macd, ...series.macdSignal, ...series.macdHistogram].filter(Number.isFinite);
+  const extent = Math.max(...values.map(Math.abs), 0) || 1;
+  const pane = scale(top, height, -extent * 1.1, extent * 1.1);
+  const parts = [frame(context, pane, [], formatPrice)];
+
+  parts.push(horizontalLine(context, pane.y(0), theme.mutedText, '3 3'));
+  const barWidth = Math.max(step * 0.6, 1);
+  series.macdHistogram.forEach((value, i) => {
+    if (!Number.isFinite(value)) return;
+    parts.push(element('rect', {
+      x: x(i) - barWidth / 2,
+      y: Math.min(pane.y(value), pane.y(0)),
+      width: barWidth,
+      height: Math.abs(pane.y(value) - pane.y(0)),
+      fill: value >= 0 ? theme.up : theme.down,
+      'fill-opacity': 0.5
+    }));
+  });
+  for (const [name, color] of [['macd', theme.macd], ['macdSignal', theme.macdSignal]] as const) {
+    parts.push(element('path', {
+      d: linePath(series[name].map((value, i) => [x(i), pane.y(value)])),
+      fill: 'none',
+      stroke: color,
+      'stroke-width': 1.2
+    }));
+  }
+  parts.push(...divergenceLines(context, pane, 'macd'));
+
+  parts.push(legend(context, top, [
+    { label: `MACD 12 26 ${formatValue(series.macd, formatPrice)}`, color: theme.macd },
+    { label: `Signal 9 ${formatValue(series.macdSignal, formatPrice)}`, color: theme.macdSignal }
+  ]));
+  return element('g', {}, parts);
+}
+
+// Outline of each chart pattern's span with its name, and its price target
+function patternAnnotations(context: ChartContext, pane: Pane): string[] {
+  const { theme, candles, analysis, x, step } = context;
+  const parts: string[] = [];
+
+  for (const pattern of analysis?.patterns ?? []) {
+    const end = context.indexAt(pattern.endTimestamp);
+    if (end === null) continue;
+    const start = context.indexAt(pattern.startTimestamp) ?? 0;
+    const span = candles.slice(start, end + 1);
+    const high = Math.max(...span.map(candle => candle.high));
+    const low = Math.min(...span.map(candle => candle.low));
+    const color = theme[pattern.implication];
+
+    parts.push(element('rect', {
+      x: x(start) - step / 2,
+      y: pane.y(high),
+      width: x(end) - x(start) + step,
+      height: pane.y(low) - pane.y(high),
+      fill: color,
+      'fill-opacity': 0.06,
+      stroke: color,
+      'stroke-dasharray': '2 2'
+    }));
+    parts.push(text(`${pattern.name} ${Math.round(pattern.confidence * 100)}%`, {
+      x: x(start) - step / 2 + 2, y: pane.y(high) - 4, fill: color, 'font-size': FONT_SIZE
+    }));
+    if (pattern.priceTarget !== null) {
+      parts.push(element('line', {
+        x1: x(end), x2: context.left + context.plotWidth, y1: pane.y(pattern.priceTarget), y2: pane.y(pattern.priceTarget),
+        stroke: color, 'stroke-dasharray': '6 3'
+      }));
+      parts.push(text(`target ${formatPrice(pattern.priceTarget)}`, {
+        x: context.left + context.plotWidth - 2, y: pane.y(pattern.priceTarget) - 3,
+        'text-anchor': 'end', fill: color, 'font-size': FONT_SIZE
+      }));
+    }
+  }
+  return parts;
+}
+
+// Triangles under bullish and over bearish signal candles, a dot over neutral ones
+function candlestickMarkers(context: ChartContext, pane: Pane): string[] {
+  const { theme, candles, analysis, timeframe, x, step } = context;
+  const size = Math.min(Math.max(step * 0.4, 3), 6);
+
+  return (timeframe ? analysis?.candlestickPatterns[timeframe] ?? [] : []).flatMap(signal => {
+    const index = context.indexAt(signal.timestamp);
+    if (index === null) return [];
+    const candle = candles[index];
+    const color = theme[signal.implication];
+    const title = element('title', {}, escapeXml(signal.name));
+
+    if (signal.implication === 'bullish') {
+      const y = pane.y(candle.low) + size + 2;
+      return [element('path', { d: `M${x(index)} ${y - size}L${x(index) + size} ${y + size}L${x(index) - size} ${y + size}Z`, fill: color }, title)];
+    }
+    if (signal.implication === 'bearish') {
+      const y = pane.y(candle.high) - size - 2;
+      return [element('path', { d: `M${x(index)} ${y + size}L${x(index) + size} ${y - size}L${x(index) - size} ${y - size}Z`, fill: color }, title)];
+    }
+    return [element('circle', { cx: x(index), cy: pane.y(candle.high) - size - 2, r: size / 2, fill: color }, title)];
+  });
+}
+
+// Divergences join their two swings on the price pane and on their oscillator's pane
+function divergenceLines(context: ChartContext, pane: Pane, target: 'price' | 'rsi' | 'macd'): string[] {
+  const { theme, analysis, timeframe, x } = context;
+  const divergences = timeframe ? analysis?.divergences[timeframe] ?? [] : [];
+
+  return divergences
+    .filter(divergence => target === 'price' || divergence.indicator === target)
+    .flatMap(divergence => {
+      const start = context.indexAt(divergence.startTimestamp);
+      const end = context.indexAt(divergence.endTimestamp);
+      if (start === null || end === null) return [];
+      const [from, to] = target === 'price'
+        ? [divergence.priceStart, divergence.priceEnd]
+        : [divergence.indicatorStart, divergence.indicatorEnd];
+      return [element('line', {
+        x1: x(start), x2: x(end), y1: pane.y(from), y2: pane.y(to),
+        stroke: theme[divergence.direction],
+        'stroke-width': 1.5,
+        'stroke-dasharray': divergence.type === 'hidden' ? '4 3' : undefined
+      })];
+    });
+}
+
+function header(title: string | undefined, analysis: TechnicalAnalysis | null, theme: ChartTheme, width: number): string {
+  const parts: string[] = [];
+  if (title) {
+    parts.push(text(title, { x: MARGIN.left, y: 22, fill: theme.text, 'font-size': FONT_SIZE * 1.5, 'font-weight': 'bold' }));
+  }
+  if (analysis) {
+    const { shortTerm, mediumTerm, confidence } = analysis.trend;
+    parts.push(text(
+      `${analysis.primaryTimeframe} · short-term ${shortTerm} · medium-term ${mediumTerm} · confidence ${Math.round(confidence * 100)}%`,
+      { x: width - MARGIN.right, y: 22, 'text-anchor': 'end', fill: theme.mutedText, 'font-size': FONT_SIZE }
+    ));
+  }
+  return parts.join('');
+}
+
+function timeAxis(context: ChartContext, y: number): string {
+  const { theme, candles, x } = context;
+  const labelCount = Math.max(Math.floor(context.plotWidth / 110), 1);
+  const every = Math.max(Math.ceil(candles.length / labelCount), 1);
+  const spacing = candles.length > 1 ? candles[1].timestamp - candles[0].timestamp : 0;
+  const withTime = spacing < 24 * 60 * 60;
+
+  const labels: string[] = [];
+  for (let i = 0; i < candles.length; i += every) {
+    labels.push(text(formatTime(candles[i].timestamp, withTime), {
+      x: x(i), y: y + 16, 'text-anchor': 'middle', fill: theme.mutedText, 'font-size': FONT_SIZE
+    }));
+  }
+  return element('g', {}, labels);
+}
+
+// Border, horizontal grid lines and their labels on the right axis
+function frame(context: ChartContext, pane: Pane, ticks: number[], format: (value: number) => string): string {
+  const { theme, left, plotWidth } = context;
+  const parts = [element('rect', {
+    x: left, y: pane.top, width: plotWidth, height: pane.height, fill: 'none', stroke: theme.grid
+  })];
+  for (const tick of ticks) {
+    parts.push(horizontalLine(context, pane.y(tick), theme.grid));
+    parts.push(axisLabel(context, pane.y(tick) + FONT_SIZE / 3, format(tick)));
+  }
+  return element('g', {}, parts);
+}
+
+function horizontalLine(context: ChartContext, y: number, color: string, dash?: string): string {
+  return element('line', {
+    x1: context.left, x2: context.left + context.plotWidth, y1: y, y2: y, stroke: color, 'stroke-dasharray': dash
+  });
+}
+
+function axisLabel(context: ChartContext, y: number, label: string): string {
+  return text(label, { x: context.left + context.plotWidth + 6, y, fill: context.theme.mutedText, 'font-size': FONT_SIZE });
+}
+
+// A filled label on the right axis, e.g. the last close
+function axisTag(context: ChartContext, y: number, label: string, color: string): string {
+  const x = context.left + context.plotWidth + 1;
+  return element('g', {}, [
+    element('rect', { x, y: y - 8, width: MARGIN.right - 2, height: 16, fill: color, rx: 2 }),
+    text(label, { x: x + 4, y: y + 4, fill: context.theme.background, 'font-size': FONT_SIZE })
+  ]);
+}
+
+function legend(context: ChartContext, top: number, entries: Array<{ label: string; color: string }>): string {
+  let x = context.left + 6;
+  return element('g', {}, entries.map(entry => {
+    const label = text(entry.label, { x, y: top + FONT_SIZE + 4, fill: entry.color, 'font-size': FONT_SIZE });
+    // Generic fonts average a little over half the font size per character
+    x += entry.label.length * FONT_SIZE * 0.6 + 12;
+    return label;
+  }));
+}
+
+function scale(top: number, height: number, min: number, max: number): Pane {
+  const range = max - min || 1;
+  return { top, height, y: value => top + height - ((value - min) / range) * height };
+}
+
+function formatValue(values: number[], format: (value: number) => string): string {
+  const value = values[values.length - 1];
+  return Number.isFinite(value) ? format(value) : '–';
+}
+
+function formatVolume(volume: number): string {
+  if (volume >= 1e9) return `${(volume / 1e9).toFixed(2)}B`;
+  if (volume >= 1e6) return `${(volume / 1e6).toFixed(2)}M`;
+  if (volume >= 1e3) return `${(volume / 1e3).toFixed(1)}K`;
+  return volume.toFixed(0);
+}
+
+function resolveTheme(theme: ChartOptions['theme']): ChartTheme {
+  if (theme === 'light') return LIGHT_CHART_THEME;
+  if (theme === undefined || theme === 'dark') return DARK_CHART_THEME;
+  return theme;
+}
+
+function svg(width: number, height: number, body: string[]): string {
+  return element('svg', {
+    xmlns: 'http://www.w3.org/2000/svg',
+    width,
+    height,
+    viewBox: `0 0 ${width} ${height}`,
+    'font-family': 'Helvetica, Arial, sans-serif'
+  }, body);
+}
@@ -0,0 +1,88 @@
+// src/chart/svg.ts
+// String helpers for building SVG markup without a DOM.
+
+export type Attributes = Record<string, string | number | undefined>;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Two decimals are plenty at screen resolution and keep the markup small
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * An element with its attributes (undefined ones are left out) and optional
+ * children, which are inserted as-is. Use `text` for escaped text content.
+ */
+export function element(tag: string, attributes: Attributes, children?: string | string[]): string {
+  const attrs = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${typeof value === 'number' ? round(value) : escapeXml(String(value))}"`)
+    .join('');
+  const content = Array.isArray(children) ? children.join('') : children;
+  return content === undefined || content === '' ? `<${tag}${attrs}/>` : `<${tag}${attrs}>${content}</${tag}>`;
+}
+
+export function text(value: string, attributes: Attributes): string {
+  return element('text', attributes, escapeXml(value));
+}
+
+/**
+ * Path data through the points, starting a new segment after every
+ * non-finite value so indicator warm-up periods leave a gap.
+ */
+export function linePath(points: Array<[number, number]>): string {
+  let data = '';
+  let drawing = false;
+  for (const [x, y] of points) {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      drawing = false;
+      continue;
+    }
+    data += `${drawing ? 'L' : 'M'}${round(x)} ${round(y)}`;
+    drawing = true;
+  }
+  return data;
+}
+
+/**
+ * Roughly `count` evenly spaced round values (1, 2 or 5 times a power of
+ * ten apart) covering min to max.
+ */
+export function niceTicks(min: number, max: number, count: number = 5): number[] {
+  if (!(max > min)) return [min];
+  const rough = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max; value += step) {
+    // Repeated addition drifts, so snap back onto the step grid
+    ticks.push(Number((Math.round(value / step) * step).toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Prices from memecoins to SOL: fixed decimals above 1, four significant
+ * digits below it.
+ */
+export function formatPrice(value: number): string {
+  const abs = Math.abs(value);
+  if (abs === 0) return '0';
+  if (abs >= 1000) return value.toFixed(0);
+  if (abs >= 1) return value.toFixed(2);
+  return Number(value.toPrecision(4)).toString();
+}
+
+// UTC so the same candles always render the same image
+export function formatTime(timestamp: number, withTime: boolean): string {
+  const iso = new Date(timestamp * 1000).toISOString();
+  return withTime ? `${iso.slice(5, 10)} ${iso.slice(11, 16)}` : iso.slice(5, 10);
+}
@@ -0,0 +1,36 @@
+// src/constants/chart.ts
+import { ChartTheme } from '../types/chart';
+
+export const DEFAULT_CHART_WIDTH = 960;
+export const DEFAULT_CHART_HEIGHT = 640;
+export const DEFAULT_CHART_CANDLES = 120;
+
+export const DARK_CHART_THEME: ChartTheme = {
+  background: '#131722',
+  text: '#d1d4dc',
+  mutedText: '#787b86',
+  grid: '#2a2e39',
+  up: '#26a69a',
+  down: '#ef5350',
+  sma20: '#f7c948',
+  sma50: '#42a5f5',
+  sma200: '#ab47bc',
+  ema20: '#ff9800',
+  rsi: '#7e57c2',
+  macd: '#2962ff',
+  macdSignal: '#ff6d00',
+  support: '#26a69a',
+  resistance: '#ef5350',
+  bullish: '#4caf50',
+  bearish: '#f44336',
+  neutral: '#9e9e9e'
+};
+
+export const LIGHT_CHART_THEME: ChartTheme = {
+  ...DARK_CHART_THEME,
+  background: '#ffffff',
+  text: '#131722',
+  mutedText: '#6a6d78',
+  grid: '#e0e3eb',
+  sma20: '#c99700'
+};
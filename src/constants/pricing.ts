@@ -0,0 +1,20 @@
+// src/constants/pricing.ts
+
+export interface LlmPrice {
+  /** USD per million prompt tokens */
+  input: number;
+  /** USD per million completion tokens */
+  output: number;
+}
+
+// Matched by longest prefix of the requested model name
+export const LLM_PRICING: Record<string, LlmPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+// Unknown models are priced like gpt-4 so budgets err on the safe side
+export const DEFAULT_LLM_PRICE: LlmPrice = LLM_PRICING['gpt-4'];
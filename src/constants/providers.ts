@@ -0,0 +1,5 @@
+export const DEFAULT_BASE_URLS = {
+  birdeye: 'https://public-api.birdeye.so',
+  twitter: 'https://api.twitter.com/2',
+  openai: 'https://api.openai.com/v1'
+};
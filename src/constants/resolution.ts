@@ -0,0 +1,17 @@
+// src/constants/resolution.ts
+import { CandidateScoreBreakdown } from '../types/resolution';
+
+export const CANDIDATE_SCORE_WEIGHTS: CandidateScoreBreakdown = {
+  match: 0.25,
+  verified: 0.2,
+  liquidity: 0.25,
+  volume: 0.15,
+  age: 0.15
+};
+
+export const DEFAULT_MIN_SCORE_GAP = 0.1;
+
+// Tokens older than this get the full age score
+export const MATURE_TOKEN_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const SOLANA_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
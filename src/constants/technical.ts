@@ -0,0 +1,42 @@
+// src/constants/technical.ts
+
+export const FIBONACCI_RETRACEMENTS = [0.236, 0.382, 0.5, 0.618, 0.786];
+export const FIBONACCI_EXTENSIONS = [1.272, 1.618, 2.618];
+
+// Birdeye candle intervals and their length in seconds
+export const TIMEFRAME_SECONDS = {
+  '1m': 60,
+  '3m': 3 * 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '30m': 30 * 60,
+  '1H': 60 * 60,
+  '2H': 2 * 60 * 60,
+  '4H': 4 * 60 * 60,
+  '6H': 6 * 60 * 60,
+  '8H': 8 * 60 * 60,
+  '12H': 12 * 60 * 60,
+  '1D': 24 * 60 * 60,
+  '3D': 3 * 24 * 60 * 60,
+  '1W': 7 * 24 * 60 * 60
+} as const;
+
+export const DEFAULT_TIMEFRAMES = ['15m', '1H', '4H'] as const;
+export const DEFAULT_PRIMARY_TIMEFRAME = '1H';
+
+// sma200 needs the longest history of the indicator set; lookbacks are raised to at least this
+export const MIN_INDICATOR_CANDLES = 200;
+export const DEFAULT_LOOKBACK_CANDLES = 300;
+// Birdeye returns at most this many candles per OHLCV request
+export const MAX_LOOKBACK_CANDLES = 1000;
+
+// Candle returns used for the benchmark beta and correlation
+export const RELATIVE_STRENGTH_WINDOW = 30;
+// Correlation at or above which a move counts as market-driven, and at or below which it is token-specific
+export const HIGH_BENCHMARK_CORRELATION = 0.7;
+export const LOW_BENCHMARK_CORRELATION = 0.3;
+// Return windows compared against the benchmark, in seconds
+export const PERFORMANCE_WINDOWS = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60
+};
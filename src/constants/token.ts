@@ -1,2 +1,12 @@
 export const SOL_ADDRESS = 'So11111111111111111111111111111111111111112';
-export const JUPITER_ADDRESS = 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN';
\ No newline at end of file
+export const JUPITER_ADDRESS = 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN';
+// Display names for common relative-strength benchmarks
+export const BENCHMARK_SYMBOLS: Record<string, string> = {
+  [SOL_ADDRESS]: 'SOL',
+  [JUPITER_ADDRESS]: 'JUP'
+};
+
+// Owners of SPL mint accounts; both start with the same 82-byte mint layout
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+export const MINT_ACCOUNT_SIZE = 82;
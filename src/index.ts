@@ -1,16 +1,121 @@
 import { OnChainService } from "./services/onchain";
-import { SocialService } from "./services/social";
+import { SocialService, isFallbackAnalysis } from "./services/social";
 import { SentimentService } from "./services/sentiment";
 import { MarketService } from "./services/market";
-import { TechnicalAnalysisService } from "./services/technical";
+import { TechnicalAnalysisService, isInsufficientDataAnalysis } from "./services/technical";
 import { NewsService } from "./services/news";
-import { TokenAnalytics, TokenAnalyticsSchema } from "./types/token";
-import { BirdeyeSearchItem, BirdeyeSearchResponse } from "./types/birdeye";
+import { SentimentAnalysis, SocialMetrics, TokenAnalytics, TokenAnalyticsSchema } from "./types/token";
+import { TechnicalAnalysis, Timeframe } from "./types/technical";
+import { NewsAnalysis } from "./types/news";
+import { AnalysisSection, AnalysisStatus, SectionStatus } from "./types/status";
+import { AnalysisEvent, SectionDataMap, SectionEvent } from "./types/events";
+import { AsyncEventQueue } from "./utils/stream";
+import { TokenResolver } from "./services/resolver";
+import { ResolveOptions, TokenResolution } from "./types/resolution";
+import { TokenAnalyzerError, describeError } from "./utils/errors";
+import { Clock, HttpTransport, ProviderBaseUrls, ServiceOptions } from "./types/service";
+import { ResolvedServiceOptions, resolveServiceOptions } from "./utils/http";
+import { CacheOptions, CacheStore } from "./types/cache";
+import { MemoryCacheStore } from "./cache/memory";
+import { SectionCache } from "./cache/section";
+import { Logger } from "./types/logger";
+import { createScopedLogger, runWithCorrelationId, silentLogger } from "./utils/logger";
+import { randomUUID } from "crypto";
+import { BatchBudget, BatchCheckpoint, BatchInput, BatchItemResult, BatchResult, LlmUsage } from "./types/batch";
+import { UsageMeter, runWithUsageMeter } from "./utils/usage";
+
+export type { Clock, HttpTransport, ProviderBaseUrls } from "./types/service";
+export type { MarketData, SentimentAnalysis, SocialMetrics, TokenAnalytics, TokenData } from "./types/token";
+export type { AINewsAnalysis, NewsAnalysis, NewsItem } from "./types/news";
+export type {
+  CandlestickSignal,
+  ChartPattern,
+  Divergence,
+  FibonacciLevels,
+  PriceCandle,
+  PriceZone,
+  RelativeStrength,
+  SupportResistance,
+  TechnicalAnalysis,
+  TechnicalAnalysisOptions,
+  TechnicalIndicators,
+  Timeframe,
+  TimeframeSeries,
+  VolumeAnalysis
+} from "./types/technical";
+export * as indicators from "./indicators";
+export type {
+  IncrementalEmaState,
+  IncrementalIndicatorsState,
+  IncrementalMacdState,
+  IncrementalRsiState,
+  IncrementalSmaState,
+  StreamingIndicatorValues
+} from "./types/indicators";
+export * as patterns from "./patterns";
+export * as backtest from "./backtest";
+export * as chart from "./chart";
+export type { ChartOptions, ChartPanes, ChartTheme } from "./types/chart";
+export { DARK_CHART_THEME, LIGHT_CHART_THEME } from "./constants/chart";
+export type { CacheEntry, CacheOptions, CacheSection, CacheStore } from "./types/cache";
+export { MemoryCacheStore, FileCacheStore, SqliteCacheStore } from "./cache";
+export type { SqliteDatabase } from "./cache";
+export { BirdeyeClient } from "./services/birdeye";
+export { SolanaRpcClient } from "./services/solana";
+export type { MintAccount } from "./types/solana";
+export { TokenResolver, rankCandidates } from "./services/resolver";
+export type { CandidateScoreBreakdown, ResolveOptions, TokenCandidate, TokenResolution } from "./types/resolution";
+export {
+  TokenAnalyzerError,
+  ProviderError,
+  RateLimitError,
+  ProviderAuthError,
+  SchemaMismatchError,
+  TokenNotFoundError,
+  AmbiguousTokenError
+} from "./utils/errors";
+export type { ErrorCode } from "./utils/errors";
+export type { AnalysisSection, AnalysisStatus, SectionState, SectionStatus } from "./types/status";
+export type { AnalysisEvent, CompleteEvent, ResolutionEvent, SectionEvent } from "./types/events";
+export { createFixtureSession } from "./utils/fixtures";
+export type { FixtureMode, FixtureSession } from "./utils/fixtures";
+export type { LogContext, LogLevel, Logger } from "./types/logger";
+export { createConsoleLogger, silentLogger } from "./utils/logger";
+export type { ConsoleLoggerOptions } from "./utils/logger";
+export type { BatchBudget, BatchCheckpoint, BatchInput, BatchItemResult, BatchResult, LlmUsage } from "./types/batch";
+export type {
+  BacktestMetrics,
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  ExitReason,
+  Strategy,
+  StrategyAction
+} from "./types/backtest";
+export { LLM_PRICING } from "./constants/pricing";
 
 export interface TokenAnalyzerConfig {
   birdseyeApiKey: string;
   twitterApiKey?: string;
   openaiApiKey?: string;
+  /** Replaces the global fetch for every provider call (Birdeye, Twitter, RSS, OpenAI) */
+  transport?: HttpTransport;
+  /** Overrides provider base URLs, e.g. to point at a local stand-in server */
+  baseUrls?: ProviderBaseUrls;
+  /** Overrides the default RSS feed list used for news analysis */
+  newsFeeds?: string[];
+  /** Source of "now" for timestamps and time ranges; freeze it for reproducible runs */
+  clock?: Clock;
+  /** Cache backend, per-section TTLs and stale-while-revalidate window shared by all services */
+  cache?: CacheOptions;
+  /** Receives the library's diagnostics with API keys redacted; silent by default */
+  logger?: Logger;
+  /**
+   * Solana JSON-RPC endpoint, e.g. a Helius URL or a local validator. When set,
+   * decimals, exact supply and authorities are read from the mint account;
+   * otherwise they come from Birdeye.
+   */
+  solanaRpcUrl?: string;
 }
 
 export interface AnalysisOptions {
@@ -18,267 +123,531 @@ export interface AnalysisOptions {
   includeSentiment?: boolean;
   includeTechnical?: boolean;
   includeNews?: boolean;
+  /** Tags every log line of this call; a random UUID is generated when omitted */
+  correlationId?: string;
+  /** Throw `AmbiguousTokenError` when a search query matches several comparable tokens */
+  strictResolution?: boolean;
+  /** Adds per-timeframe candles and indicator series to `technicalAnalysis`, for charting */
+  includeIndicatorSeries?: boolean;
+  /** Candle intervals for technical analysis, defaults to 15m, 1H and 4H */
+  timeframes?: Timeframe[];
+  /** Candles requested per timeframe, at least 200 so sma200 can fill; defaults to 300 */
+  lookback?: number;
+  /** Timeframe the indicators, patterns and zones are computed on, defaults to 1H */
+  primaryTimeframe?: Timeframe;
+  /** Token address to measure relative strength against, defaults to SOL; `false` skips it */
+  benchmark?: string | false;
 }
 
+export interface BatchOptions extends AnalysisOptions {
+  /** How many tokens are analyzed at once, defaults to 3 */
+  concurrency?: number;
+  /** Items not yet started once the budget is spent are skipped */
+  budget?: BatchBudget;
+  checkpoint?: BatchCheckpoint;
+  /** Called as each item settles, in completion order */
+  onItem?: (item: BatchItemResult) => void;
+}
+
+interface RunContext {
+  status: AnalysisStatus;
+  emit: (event: SectionEvent) => void;
+}
+
+const ANALYSIS_SECTIONS: AnalysisSection[] = ['onchain', 'market', 'technical', 'social', 'sentiment', 'news'];
+const DEFAULT_BATCH_CONCURRENCY = 3;
+const DEFAULT_CHECKPOINT_TTL = 24 * 60 * 60 * 1000;
+
 export class TokenAnalyzer {
+  private readonly resolver: TokenResolver;
   private readonly onchain: OnChainService;
   private readonly market: MarketService;
   private readonly social?: SocialService;
   private readonly sentiment?: SentimentService;
   private readonly technical?: TechnicalAnalysisService;
   private readonly news?: NewsService;
-  private readonly analysisCache: Map<string, { data: TokenAnalytics; timestamp: number }>;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly analysisCache: SectionCache<TokenAnalytics>;
+  private readonly cacheStore: CacheStore;
+  private readonly http: ResolvedServiceOptions;
+  private readonly logger: Logger;
 
   constructor(private readonly config: TokenAnalyzerConfig) {
     if (!config.birdseyeApiKey) {
       throw new Error('BIRDEYE_API_KEY is required');
     }
 
-    this.onchain = new OnChainService(config.birdseyeApiKey);
-    this.market = new MarketService(config.birdseyeApiKey);
+    // Every service shares one store so clearCache() and persistence cover all sections
+    this.cacheStore = config.cache?.store || new MemoryCacheStore(undefined, config.clock);
+    const cacheOptions: CacheOptions = { ...config.cache, store: this.cacheStore };
+
+    this.logger = createScopedLogger(config.logger || silentLogger, [
+      config.birdseyeApiKey,
+      config.twitterApiKey,
+      config.openaiApiKey
+    ]);
+
+    const serviceOptions: ServiceOptions = {
+      transport: config.transport,
+      baseUrls: config.baseUrls,
+      clock: config.clock,
+      cache: cacheOptions,
+      logger: this.logger,
+      solanaRpcUrl: config.solanaRpcUrl
+    };
+    this.http = resolveServiceOptions(serviceOptions);
+
+    this.resolver = new TokenResolver(config.birdseyeApiKey, serviceOptions);
+    this.onchain = new OnChainService(config.birdseyeApiKey, serviceOptions);
+    this.market = new MarketService(config.birdseyeApiKey, serviceOptions);
     
     if (config.twitterApiKey && config.openaiApiKey) {
-      this.social = new SocialService(config.twitterApiKey, config.openaiApiKey);
+      this.social = new SocialService(config.twitterApiKey, config.openaiApiKey, {}, serviceOptions);
     }
     
     if (config.openaiApiKey) {
-      this.sentiment = new SentimentService(config.openaiApiKey);
-      this.technical = new TechnicalAnalysisService(config.birdseyeApiKey);
-      this.news = new NewsService(config.openaiApiKey);
+      this.sentiment = new SentimentService(config.openaiApiKey, serviceOptions);
+      this.technical = new TechnicalAnalysisService(config.birdseyeApiKey, serviceOptions);
+      this.news = new NewsService(config.openaiApiKey, { feeds: config.newsFeeds }, serviceOptions);
     }
     
-    this.analysisCache = new Map();
+    this.analysisCache = new SectionCache('analysis', cacheOptions, undefined, this.logger, this.http.clock);
   }
 
   async analyze(input: string, options: AnalysisOptions = {}): Promise<TokenAnalytics> {
-    try {
-      const isAddress = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(input);
-      let tokenInfo: { address: string; symbol?: string; name?: string } | null = null;
-
-      if (isAddress) {
-        tokenInfo = { address: input };
-      } else {
-        const matches = await this.searchTokenList(input);
-        if (matches.length > 0) {
-          tokenInfo = matches[0];
+    return runWithCorrelationId(options.correlationId || randomUUID(), async () => {
+      try {
+        const tokenInfo = await this.resolveInput(input, options);
+
+        return await this.analyzeToken(
+          tokenInfo.address,
+          tokenInfo.symbol,
+          tokenInfo.name,
+          options
+        );
+      } catch (error) {
+        this.logger.error('Error analyzing token', { input, error });
+        if (error instanceof TokenAnalyzerError) {
+          throw error;
         }
+        throw new Error(`Failed to analyze token: ${error instanceof Error ? error.message : String(error)}`);
       }
+    });
+  }
 
-      if (!tokenInfo) {
-        throw new Error(`No token found matching: ${input}`);
+  /**
+   * Streams the analysis as it progresses: a `resolution` event once the input
+   * is resolved to a mint, one event per section as soon as it settles, and a
+   * final `complete` event carrying the validated `TokenAnalytics`.
+   */
+  analyzeStream(input: string, options: AnalysisOptions = {}): AsyncIterableIterator<AnalysisEvent> {
+    const queue = new AsyncEventQueue<AnalysisEvent>();
+    const emitted = new Set<AnalysisSection>();
+    const emit = (event: SectionEvent) => {
+      emitted.add(event.type);
+      queue.push(event);
+    };
+
+    const run = async () => {
+      const tokenInfo = await this.resolveInput(input, options);
+      queue.push({ type: 'resolution', ...tokenInfo });
+
+      const result = await this.analyzeToken(tokenInfo.address, tokenInfo.symbol, tokenInfo.name, options, emit);
+
+      // Cache hits and skipped sections never reach runSection, so replay them from the result
+      for (const section of ANALYSIS_SECTIONS) {
+        if (!emitted.has(section)) {
+          emit(sectionEventFromResult(section, result));
+        }
       }
 
-      return this.analyzeToken(
-        tokenInfo.address,
-        tokenInfo.symbol || null,
-        tokenInfo.name || null,
-        options
-      );
-    } catch (error) {
-      console.error(`Error analyzing token:`, error);
-      throw new Error(`Failed to analyze token: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
+      queue.push({ type: 'complete', result });
+      queue.end();
+    };
 
-  private async analyzeToken(
-    address: string, 
-    symbol: string | null = null, 
-    tokenName: string | null = null,
-    options: AnalysisOptions = {}
-  ): Promise<TokenAnalytics> {
-    try {
-      const cacheKey = `${address}_${JSON.stringify(options)}`;
-      const cached = this.analysisCache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-        return cached.data;
-      }
+    runWithCorrelationId(options.correlationId || randomUUID(), run).catch(error => {
+      this.logger.error('Error analyzing token', { input, error });
+      queue.fail(error);
+    });
 
-      console.log('Starting token analysis for:', address);
+    return queue;
+  }
 
-      const analysisPromises: Promise<any>[] = [
-        Promise.all([
-          this.onchain.getTokenData(address),
-          this.market.getMarketData(address)
-        ])
-      ];
+  /**
+   * Analyzes a list of tokens with bounded concurrency. Each input gets its
+   * own result or error, so one bad token never fails the batch. With a
+   * `checkpoint`, completed items are persisted and skipped when the same
+   * batch is run again; with a `budget`, items are skipped once the LLM calls
+   * or estimated cost of the batch reach the limit. Items already running
+   * when that happens still finish, so the budget can be overshot by up to
+   * `concurrency - 1` items.
+   */
+  async analyzeMany(inputs: BatchInput[], options: BatchOptions = {}): Promise<BatchResult> {
+    const { concurrency = DEFAULT_BATCH_CONCURRENCY, budget, checkpoint, onItem, ...analysisOptions } = options;
+    const meter = new UsageMeter();
+    const items: BatchItemResult[] = new Array(inputs.length);
+    let budgetExhausted = false;
+    let next = 0;
+
+    this.logger.info('Starting batch analysis', { count: inputs.length, concurrency, checkpoint: checkpoint?.id });
+
+    const worker = async () => {
+      while (next < inputs.length) {
+        const index = next++;
+        const input = inputs[index];
+
+        if (!budgetExhausted && budget && isBudgetSpent(budget, meter.usage)) {
+          budgetExhausted = true;
+          this.logger.warn('Batch budget exhausted, skipping remaining items', { budget, usage: meter.usage });
+        }
 
-      if (options.includeTechnical && this.technical) {
-        console.log('Including technical analysis...');
-        analysisPromises.push(this.technical.analyzeTechnicals(address));
+        const item: BatchItemResult = budgetExhausted
+          ? { input: batchInputKey(input), index, state: 'skipped', reason: 'BUDGET_EXHAUSTED' }
+          : await this.runBatchItem(input, index, analysisOptions, meter, checkpoint);
+        items[index] = item;
+        onItem?.(item);
       }
+    };
 
-      const [basicData, technicalAnalysis] = await Promise.all(analysisPromises);
-      const [onChainData, market] = basicData;
-
-      const finalSymbol = symbol || onChainData.symbol;
-      const finalTokenName = tokenName || onChainData.name;
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, inputs.length)) }, worker));
 
-      let socialMetrics = undefined;
-      let sentiment = undefined;
-      let newsAnalysis = undefined;
+    this.logger.info('Finished batch analysis', {
+      count: inputs.length,
+      failed: items.filter(item => item.state === 'failed').length,
+      skipped: items.filter(item => item.state === 'skipped').length,
+      usage: meter.usage
+    });
 
-      if (options.includeSocial && this.social) {
-        console.log('Fetching social metrics...');
-        try {
-          socialMetrics = await this.social.getSocialMetrics(
-            finalSymbol,
-            finalTokenName,
-            {
-              price: market.price,
-              priceChange24h: market.priceChange24h,
-              volume24h: onChainData.volume24h.toString(),
-              decimals: onChainData.decimals
-            }
-          );
+    return { items, usage: meter.usage, budgetExhausted };
+  }
 
-          if (options.includeSentiment && this.sentiment && socialMetrics.tweets.length > 0) {
-            console.log('Performing sentiment analysis...');
-            sentiment = await this.sentiment.analyzeSentiment(socialMetrics.tweets);
-          }
-        } catch (error) {
-          console.error('Error in social/sentiment analysis:', error);
-        }
+  private async runBatchItem(
+    input: BatchInput,
+    index: number,
+    options: AnalysisOptions,
+    batchMeter: UsageMeter,
+    checkpoint?: BatchCheckpoint
+  ): Promise<BatchItemResult> {
+    const key = batchInputKey(input);
+    const store = checkpoint?.store || this.cacheStore;
+    const checkpointKey = checkpoint && `batch:${checkpoint.id}:${key}`;
+    const meter = new UsageMeter(batchMeter);
+
+    if (checkpointKey) {
+      const saved = await store.get<TokenAnalytics>(checkpointKey);
+      if (saved && saved.expiresAt > this.http.clock()) {
+        return { input: key, index, state: 'ok', result: saved.value, usage: meter.usage, resumed: true };
       }
+    }
 
-      if (options.includeNews && this.news) {
-        console.log('Fetching news analysis...');
-        try {
-          newsAnalysis = await this.news.getNewsAnalysis(finalSymbol, finalTokenName);
-        } catch (error) {
-          console.error('Error in news analysis:', error);
-        }
+    const correlationId = options.correlationId ? `${options.correlationId}:${index}` : randomUUID();
+    try {
+      const result = await runWithCorrelationId(correlationId, () => runWithUsageMeter(meter, async () => {
+        const token = typeof input === 'string'
+          ? await this.resolveInput(input, options)
+          : { address: input.address, symbol: input.symbol ?? null, name: input.name ?? null };
+        return this.analyzeToken(token.address, token.symbol, token.name, options);
+      }));
+
+      if (checkpointKey) {
+        const now = this.http.clock();
+        await store.set(checkpointKey, {
+          value: result,
+          storedAt: now,
+          expiresAt: now + (checkpoint.ttl ?? DEFAULT_CHECKPOINT_TTL)
+        });
       }
 
-      const analytics: TokenAnalytics = {
-        address,
-        onChainData,
-        market,
-        technicalAnalysis: options.includeTechnical ? technicalAnalysis : undefined,
-        socialMetrics,
-        sentiment,
-        lastUpdated: new Date()
-      };
+      return { input: key, index, state: 'ok', result, usage: meter.usage, resumed: false };
+    } catch (error) {
+      this.logger.warn('Batch item failed', { input: key, index, error });
+      return { input: key, index, state: 'failed', error: describeError(error), usage: meter.usage };
+    }
+  }
 
-      console.log('Validating analytics data...');
-      const validated = TokenAnalyticsSchema.parse(analytics);
+  /**
+   * Resolves a symbol, name or mint address to a mint, with the ranked search
+   * candidates that led to it. In `strict` mode an `AmbiguousTokenError` is
+   * thrown when the top candidate does not clearly outscore the rest.
+   */
+  resolveToken(query: string, options: ResolveOptions = {}): Promise<TokenResolution> {
+    return this.resolver.resolve(query, options);
+  }
 
-      this.analysisCache.set(cacheKey, {
-        data: validated,
-        timestamp: Date.now()
-      });
+  private async resolveInput(
+    input: string,
+    options: AnalysisOptions
+  ): Promise<{ address: string; symbol: string | null; name: string | null }> {
+    const { address, symbol, name } = await this.resolver.resolve(input, { strict: options.strictResolution });
+    return { address, symbol, name };
+  }
 
-      return validated;
+  private async analyzeToken(
+    address: string, 
+    symbol: string | null = null, 
+    tokenName: string | null = null,
+    options: AnalysisOptions = {},
+    emit: (event: SectionEvent) => void = () => {}
+  ): Promise<TokenAnalytics> {
+    try {
+      // Results with failed or degraded sections are returned but not cached, so a transient
+      // failure or fallback is retried next call
+      const { correlationId, strictResolution, ...cacheKeyOptions } = options;
+      return await this.analysisCache.getOrLoad(
+        `${address}_${JSON.stringify(cacheKeyOptions)}`,
+        () => this.runAnalysis(address, symbol, tokenName, options, emit),
+        analytics => !Object.values(analytics.status).some(section => section.state === 'failed' || section.state === 'degraded')
+      );
     } catch (error) {
-      console.error('Error in analyzeToken:', error);
+      this.logger.error('Error in analyzeToken', { address, error });
       throw error;
     }
   }
 
-  private async searchTokenList(query: string): Promise<Array<{
-    address: string;
-    symbol: string;
-    name: string;
-  }>> {
-    try {
-      console.log('Searching for token:', query);
-      
-      const response = await fetch(
-        `https://public-api.birdeye.so/defi/v3/search?` +
-        `chain=solana` +
-        `&keyword=${encodeURIComponent(query)}` +
-        `&target=token` +
-        `&sort_by=liquidity` +
-        `&sort_type=desc` +
-        `&offset=0` +
-        `&limit=20`,
-        {
-          method: 'GET',
-          headers: {
-            'accept': 'application/json',
-            'X-API-KEY': this.config.birdseyeApiKey
+  private async runAnalysis(
+    address: string,
+    symbol: string | null,
+    tokenName: string | null,
+    options: AnalysisOptions,
+    emit: (event: SectionEvent) => void
+  ): Promise<TokenAnalytics> {
+    this.logger.info('Starting token analysis', { address, symbol, tokenName });
+
+    const status: AnalysisStatus = {
+      onchain: skipped('Not requested'),
+      market: skipped('Not requested'),
+      technical: skipped('Not requested'),
+      social: skipped('Not requested'),
+      sentiment: skipped('Not requested'),
+      news: skipped('Not requested')
+    };
+    const context: RunContext = { status, emit };
+
+    // On-chain data is the one section the analysis cannot do without, so its errors propagate
+    const onchainStartedAt = this.http.clock();
+    const onChainPromise = this.onchain.getTokenData(address).then(data => {
+      const durationMs = this.http.clock() - onchainStartedAt;
+      status.onchain = data.source === 'rpc'
+        ? { state: 'ok', provider: 'solana-rpc', durationMs }
+        : this.onchain.usesRpc
+          ? {
+            state: 'degraded',
+            provider: 'birdeye',
+            errorCode: 'PROVIDER_ERROR',
+            message: 'Solana RPC unavailable, mint data taken from Birdeye',
+            durationMs
           }
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Birdeye search API error: ${response.status}`);
+          : { state: 'ok', provider: 'birdeye', durationMs };
+      emit({ type: 'onchain', status: status.onchain, data });
+      return data;
+    });
+
+    const marketPromise = this.runSection(context, 'market', 'birdeye', () =>
+      this.market.getMarketData(address)
+    );
+
+    let technicalPromise: Promise<TechnicalAnalysis | undefined> = Promise.resolve(undefined);
+    if (options.includeTechnical) {
+      if (this.technical) {
+        this.logger.debug('Including technical analysis', { address });
+        const technical = this.technical;
+        technicalPromise = this.runSection(
+          context,
+          'technical',
+          'birdeye',
+          () => technical.analyzeTechnicals(address, {
+            includeSeries: options.includeIndicatorSeries,
+            timeframes: options.timeframes,
+            lookback: options.lookback,
+            primaryTimeframe: options.primaryTimeframe,
+            benchmark: options.benchmark
+          }),
+          analysis => {
+            if (isInsufficientDataAnalysis(analysis)) {
+              return { code: 'INSUFFICIENT_DATA', message: 'Not enough price history for technical analysis' };
+            }
+            if (Object.values(analysis.candleSources).includes('synthetic')) {
+              return { code: 'SYNTHETIC_CANDLES', message: 'OHLCV unavailable, some candles were built from price points' };
+            }
+            return null;
+          }
+        );
+      } else {
+        status.technical = skipped('OpenAI API key not configured');
       }
+    }
 
-      const data = (await response.json()) as BirdeyeSearchResponse;
-      
-      if (!data.success || !data.data?.items) {
-        console.warn('No data found in search response');
-        return [];
+    const [onChainData, market, technicalAnalysis] = await Promise.all([
+      onChainPromise,
+      marketPromise,
+      technicalPromise
+    ]);
+
+    const finalSymbol = symbol || onChainData.symbol;
+    const finalTokenName = tokenName || onChainData.name;
+
+    let socialMetrics: SocialMetrics | undefined = undefined;
+    let sentiment: SentimentAnalysis | undefined = undefined;
+    let news: NewsAnalysis | undefined = undefined;
+
+    if (options.includeSocial) {
+      if (this.social) {
+        this.logger.debug('Fetching social metrics', { address, symbol: finalSymbol });
+        const social = this.social;
+        socialMetrics = await this.runSection(
+          context,
+          'social',
+          'twitter',
+          () => social.getSocialMetrics(
+            finalSymbol,
+            finalTokenName,
+            {
+              price: market?.price ?? null,
+              priceChange24h: market?.priceChange24h ?? null,
+              volume24h: onChainData.volume24h.toString(),
+              decimals: onChainData.decimals
+            }
+          ),
+          metrics => isFallbackAnalysis(metrics.aiAnalysis)
+            ? { code: 'AI_ANALYSIS_UNAVAILABLE', message: 'Tweets fetched but the AI analysis failed' }
+            : null
+        );
+      } else {
+        status.social = skipped('Twitter and OpenAI API keys not configured');
       }
+    }
 
-      const tokenItem = data.data.items.find((item: BirdeyeSearchItem) => item.type === 'token');
-      if (!tokenItem?.result) {
-        console.warn('No token results found');
-        return [];
+    if (options.includeSentiment) {
+      if (!this.sentiment) {
+        status.sentiment = skipped('OpenAI API key not configured');
+      } else if (!socialMetrics) {
+        status.sentiment = skipped('Requires social metrics');
+      } else if (socialMetrics.tweets.length === 0) {
+        status.sentiment = skipped('No tweets to analyze');
+      } else {
+        this.logger.debug('Performing sentiment analysis', { address, tweetCount: socialMetrics.tweets.length });
+        const tweets = socialMetrics.tweets;
+        const sentimentService = this.sentiment;
+        sentiment = await this.runSection(context, 'sentiment', 'openai', () =>
+          sentimentService.analyzeSentiment(tweets)
+        );
       }
+    }
 
-      const matches = tokenItem.result
-        .filter(token => token.liquidity > 0)
-        .map(token => ({
-          address: token.address,
-          symbol: token.symbol,
-          name: token.name,
-          liquidity: token.liquidity || 0,
-          volume24h: token.volume_24h_usd || 0,
-          price: token.price || 0,
-          lastTrade: token.last_trade_human_time,
-          verified: token.verified || false
-        }));
-
-      console.log('Found matches:', matches.length);
-      if (matches.length > 0) {
-        console.log('Top matches:', matches.slice(0, 3).map(match => 
-          `${match.symbol} (${match.name})\n` +
-          `  Price: $${this.formatNumber(match.price)}\n` +
-          `  Liquidity: $${this.formatNumber(match.liquidity)}\n` +
-          `  24h Volume: $${this.formatNumber(match.volume24h)}\n` +
-          `  Verified: ${match.verified}\n` +
-          `  Last Trade: ${new Date(match.lastTrade).toLocaleString()}\n` +
-          `  Address: ${match.address}`
-        ));
+    if (options.includeNews) {
+      if (this.news) {
+        this.logger.debug('Fetching news analysis', { address, symbol: finalSymbol });
+        const newsService = this.news;
+        news = await this.runSection(context, 'news', 'rss', () =>
+          newsService.getNewsAnalysis(finalSymbol, finalTokenName)
+        );
+      } else {
+        status.news = skipped('OpenAI API key not configured');
       }
+    }
 
-      return matches.map(({ address, symbol, name }) => ({
-        address,
-        symbol,
-        name
-      }));
+    const analytics: TokenAnalytics = {
+      address,
+      onChainData,
+      market,
+      technicalAnalysis,
+      socialMetrics,
+      sentiment,
+      news,
+      status,
+      lastUpdated: new Date(this.http.clock())
+    };
+
+    this.logger.debug('Validating analytics data', { address });
+    return TokenAnalyticsSchema.parse(analytics);
+  }
+
+  /**
+   * Runs one optional section, recording its outcome and timing in `status`
+   * and emitting it as a section event. Failures are reported there instead of
+   * rejecting the whole analysis.
+   */
+  private async runSection<S extends AnalysisSection, T extends SectionDataMap[S]>(
+    { status, emit }: RunContext,
+    section: S,
+    provider: string,
+    run: () => Promise<T>,
+    checkDegraded: (result: T) => { code: string; message: string } | null = () => null
+  ): Promise<T | undefined> {
+    const startedAt = this.http.clock();
+    try {
+      const result = await run();
+      const degraded = checkDegraded(result);
+      status[section] = degraded
+        ? { state: 'degraded', provider, errorCode: degraded.code, message: degraded.message, durationMs: this.http.clock() - startedAt }
+        : { state: 'ok', provider, durationMs: this.http.clock() - startedAt };
+      emit({ type: section, status: status[section], data: result } as SectionEvent);
+      return result;
     } catch (error) {
-      console.error('Error searching tokens:', error);
-      throw error;
+      this.logger.warn('Analysis section failed', { section, provider, error });
+      const { code, provider: failedProvider, message } = describeError(error);
+      status[section] = {
+        state: 'failed',
+        provider: failedProvider || provider,
+        errorCode: code,
+        message,
+        durationMs: this.http.clock() - startedAt
+      };
+      emit({ type: section, status: status[section] } as SectionEvent);
+      return undefined;
     }
   }
-  
-  private formatNumber(num: number): string {
-    if (!num) return '0';
-    if (num >= 1e9) return (num / 1e9).toFixed(2) + 'B';
-    if (num >= 1e6) return (num / 1e6).toFixed(2) + 'M';
-    if (num >= 1e3) return (num / 1e3).toFixed(2) + 'K';
-    return num.toFixed(2);
-  }
 
-  async getTrendingTokens(limit: number = 100, options?: AnalysisOptions): Promise<TokenAnalytics[]> {
+  /**
+   * Analyzes the current trending tokens through `analyzeMany`. Tokens whose
+   * analysis failed or was skipped by the budget are left out; call
+   * `analyzeMany` directly to see them.
+   */
+  async getTrendingTokens(limit: number = 100, options?: BatchOptions): Promise<TokenAnalytics[]> {
     try {
       const trending = await this.market.getTrendingTokens(limit);
-      return Promise.all(
-        trending.map(token => 
-          this.analyzeToken(token.address, token.symbol, token.name, options)
-        )
+      const batch = await this.analyzeMany(
+        trending.map(token => ({ address: token.address, symbol: token.symbol, name: token.name })),
+        options
       );
+      return batch.items.flatMap(item => item.state === 'ok' ? [item.result] : []);
     } catch (error) {
-      console.error('Error fetching trending tokens:', error);
+      this.logger.error('Error fetching trending tokens', { limit, error });
       throw error;
     }
   }
 
-  clearCache(): void {
-    this.analysisCache.clear();
-    this.market.clearCache();
+  clearCache(): Promise<void> {
+    return this.cacheStore.clear();
   }
-}
\ No newline at end of file
+}
+
+function batchInputKey(input: BatchInput): string {
+  return typeof input === 'string' ? input : input.address;
+}
+
+function isBudgetSpent(budget: BatchBudget, usage: LlmUsage): boolean {
+  return (budget.maxLlmCalls !== undefined && usage.calls >= budget.maxLlmCalls)
+    || (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd);
+}
+
+function skipped(message: string): SectionStatus {
+  return { state: 'skipped', message };
+}
+
+function sectionEventFromResult(section: AnalysisSection, result: TokenAnalytics): SectionEvent {
+  const status = result.status[section];
+  switch (section) {
+    case 'onchain':
+      return { type: section, status, data: result.onChainData };
+    case 'market':
+      return { type: section, status, data: result.market };
+    case 'technical':
+      return { type: section, status, data: result.technicalAnalysis as TechnicalAnalysis | undefined };
+    case 'social':
+      return { type: section, status, data: result.socialMetrics };
+    case 'sentiment':
+      return { type: section, status, data: result.sentiment };
+    case 'news':
+      return { type: section, status, data: result.news };
+  }
+}
@@ -0,0 +1,81 @@
+// src/indicators/averages.ts
+
+/**
+ * Simple moving average. Entries before the first full window are NaN.
+ */
+export function sma(values: number[], period: number): number[] {
+  const result = new Array<number>(values.length).fill(NaN);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first `period`
+ * values. NaN inputs before the seed (e.g. another indicator's warm-up) are skipped.
+ */
+export function ema(values: number[], period: number): number[] {
+  const result = new Array<number>(values.length).fill(NaN);
+  const start = values.findIndex(value => !Number.isNaN(value));
+  if (start === -1 || values.length - start < period) return result;
+
+  const multiplier = 2 / (period + 1);
+  let previous = values.slice(start, start + period).reduce((sum, value) => sum + value, 0) / period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    previous = (values[i] - previous) * multiplier + previous;
+    result[i] = previous;
+  }
+  return result;
+}
+
+/**
+ * Wilder's smoothing (an EMA with alpha 1/period), seeded with a simple average.
+ */
+export function wilderSmooth(values: number[], period: number): number[] {
+  const result = new Array<number>(values.length).fill(NaN);
+  const start = values.findIndex(value => !Number.isNaN(value));
+  if (start === -1 || values.length - start < period) return result;
+
+  let previous = values.slice(start, start + period).reduce((sum, value) => sum + value, 0) / period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    previous = (previous * (period - 1) + values[i]) / period;
+    result[i] = previous;
+  }
+  return result;
+}
+
+export function closes(candles: Array<{ close: number }>): number[] {
+  return candles.map(candle => candle.close);
+}
+
+/**
+ * Latest value of a series, or `fallback` when it is still warming up.
+ */
+export function latest(series: number[]): number | null;
+export function latest(series: number[], fallback: number): number;
+export function latest(series: number[], fallback: number | null = null): number | null {
+  const value = series[series.length - 1];
+  return value === undefined || Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Latest value of every series in a multi-line indicator, or null unless all
+ * of them are past their warm-up.
+ */
+export function latestValues<K extends string>(lines: Record<K, number[]>): Record<K, number> | null {
+  const result = {} as Record<K, number>;
+  for (const key of Object.keys(lines) as K[]) {
+    const value = latest(lines[key]);
+    if (value === null) return null;
+    result[key] = value;
+  }
+  return result;
+}
@@ -0,0 +1,382 @@
+// src/indicators/incremental.ts
+// Stateful counterparts of sma, ema, rsi and macd that take one candle at a
+// time in O(1) and produce the same values as the batch functions.
+import { PriceCandle } from '../types/technical';
+import {
+  IncrementalEmaState,
+  IncrementalEmaStateSchema,
+  IncrementalIndicatorsState,
+  IncrementalIndicatorsStateSchema,
+  IncrementalMacdState,
+  IncrementalMacdStateSchema,
+  IncrementalRsiState,
+  IncrementalRsiStateSchema,
+  IncrementalSmaState,
+  IncrementalSmaStateSchema,
+  SmaWindowState,
+  SmoothingState,
+  StreamingIndicatorValues
+} from '../types/indicators';
+import { toRsi } from './momentum';
+
+// Running sum over a ring buffer, added and evicted in the same order as `sma`
+class SmaWindow {
+  constructor(private readonly state: SmaWindowState) {}
+
+  static create(period: number): SmaWindow {
+    return new SmaWindow({ period, values: [], next: 0, sum: 0 });
+  }
+
+  push(value: number): void {
+    const { period, values } = this.state;
+    this.state.sum += value;
+    if (values.length < period) {
+      values.push(value);
+      return;
+    }
+    this.state.sum -= values[this.state.next];
+    values[this.state.next] = value;
+    this.state.next = (this.state.next + 1) % period;
+  }
+
+  // The average if `value` were pushed, without pushing it
+  peek(value: number): number {
+    const { period, values, next, sum } = this.state;
+    if (values.length + 1 < period) return NaN;
+    return (sum + value - (values.length === period ? values[next] : 0)) / period;
+  }
+
+  toJSON(): SmaWindowState {
+    return { ...this.state, values: [...this.state.values] };
+  }
+}
+
+/**
+ * EMA (`ema`) or Wilder (`wilderSmooth`) smoothing, seeded with the average
+ * of the first `period` inputs like the batch versions.
+ */
+class Smoothing {
+  constructor(private readonly state: SmoothingState, private readonly kind: 'ema' | 'wilder') {}
+
+  static create(period: number, kind: 'ema' | 'wilder'): Smoothing {
+    return new Smoothing({ period, count: 0, seed: 0, value: null }, kind);
+  }
+
+  push(value: number): void {
+    this.state.value = this.next(value);
+    this.state.count++;
+    if (this.state.count < this.state.period) this.state.seed += value;
+    if (this.state.value !== null && Number.isNaN(this.state.value)) this.state.value = null;
+  }
+
+  peek(value: number): number {
+    return this.next(value) ?? NaN;
+  }
+
+  get value(): number {
+    return this.state.value ?? NaN;
+  }
+
+  toJSON(): SmoothingState {
+    return { ...this.state };
+  }
+
+  private next(value: number): number | null {
+    const { period, count, seed, value: previous } = this.state;
+    if (count + 1 < period) return null;
+    if (previous === null) return (seed + value) / period;
+    return this.kind === 'ema'
+      ? (value - previous) * (2 / (period + 1)) + previous
+      : (previous * (period - 1) + value) / period;
+  }
+}
+
+/**
+ * Base for the candle-level indicators. The latest candle is held as
+ * `pending` and only committed once a later candle arrives, so polling the
+ * still-forming candle repeatedly revises it instead of counting it twice.
+ * Candles older than the pending one are ignored, which makes it safe to
+ * replay an overlapping history after restoring saved state.
+ */
+abstract class StreamingIndicator<T> {
+  protected pending: PriceCandle | null;
+
+  protected constructor(pending: PriceCandle | null) {
+    this.pending = pending;
+  }
+
+  /** Applies the candle and returns the indicator value including it */
+  update(candle: PriceCandle): T | null {
+    if (this.pending && candle.timestamp < this.pending.timestamp) return this.value;
+    if (this.pending && candle.timestamp > this.pending.timestamp) this.commit(this.pending);
+    this.pending = candle;
+    return this.value;
+  }
+
+  /** Feeds a history of candles in timestamp order */
+  seed(candles: PriceCandle[]): this {
+    for (const candle of candles) this.update(candle);
+    return this;
+  }
+
+  /** Null while warming up, like `latest` on the batch series */
+  get value(): T | null {
+    return this.pending ? this.peek(this.pending) : null;
+  }
+
+  protected abstract commit(candle: PriceCandle): void;
+  protected abstract peek(candle: PriceCandle): T | null;
+}
+
+const finite = (value: number): number | null => Number.isFinite(value) ? value : null;
+
+export class IncrementalSma extends StreamingIndicator<number> {
+  private constructor(private readonly window: SmaWindow, pending: PriceCandle | null) {
+    super(pending);
+  }
+
+  static create(period: number): IncrementalSma {
+    return new IncrementalSma(SmaWindow.create(period), null);
+  }
+
+  static fromJSON(state: IncrementalSmaState): IncrementalSma {
+    const parsed = IncrementalSmaStateSchema.parse(state);
+    return new IncrementalSma(new SmaWindow(parsed.window), parsed.pending);
+  }
+
+  protected commit(candle: PriceCandle): void {
+    this.window.push(candle.close);
+  }
+
+  protected peek(candle: PriceCandle): number | null {
+    return finite(this.window.peek(candle.close));
+  }
+
+  toJSON(): IncrementalSmaState {
+    return { type: 'sma', window: this.window.toJSON(), pending: this.pending };
+  }
+}
+
+export class IncrementalEma extends StreamingIndicator<number> {
+  private constructor(private readonly smoothing: Smoothing, pending: PriceCandle | null) {
+    super(pending);
+  }
+
+  static create(period: number): IncrementalEma {
+    return new IncrementalEma(Smoothing.create(period, 'ema'), null);
+  }
+
+  static fromJSON(state: IncrementalEmaState): IncrementalEma {
+    const parsed = IncrementalEmaStateSchema.parse(state);
+    return new IncrementalEma(new Smoothing(parsed.smoothing, 'ema'), parsed.pending);
+  }
+
+  protected commit(candle: PriceCandle): void {
+    this.smoothing.push(candle.close);
+  }
+
+  protected peek(candle: PriceCandle): number | null {
+    return finite(this.smoothing.peek(candle.close));
+  }
+
+  toJSON(): IncrementalEmaState {
+    return { type: 'ema', smoothing: this.smoothing.toJSON(), pending: this.pending };
+  }
+}
+
+export class IncrementalRsi extends StreamingIndicator<number> {
+  private constructor(
+    private previousClose: number | null,
+    private readonly gains: Smoothing,
+    private readonly losses: Smoothing,
+    pending: PriceCandle | null
+  ) {
+    super(pending);
+  }
+
+  static create(period: number = 14): IncrementalRsi {
+    return new IncrementalRsi(null, Smoothing.create(period, 'wilder'), Smoothing.create(period, 'wilder'), null);
+  }
+
+  static fromJSON(state: IncrementalRsiState): IncrementalRsi {
+    const parsed = IncrementalRsiStateSchema.parse(state);
+    return new IncrementalRsi(
+      parsed.previousClose,
+      new Smoothing(parsed.gains, 'wilder'),
+      new Smoothing(parsed.losses, 'wilder'),
+      parsed.pending
+    );
+  }
+
+  protected commit(candle: PriceCandle): void {
+    if (this.previousClose !== null) {
+      const change = candle.close - this.previousClose;
+      this.gains.push(Math.max(change, 0));
+      this.losses.push(Math.max(-change, 0));
+    }
+    this.previousClose = candle.close;
+  }
+
+  protected peek(candle: PriceCandle): number | null {
+    if (this.previousClose === null) return null;
+    const change = candle.close - this.previousClose;
+    const gain = this.gains.peek(Math.max(change, 0));
+    const loss = this.losses.peek(Math.max(-change, 0));
+    return Number.isNaN(gain) || Number.isNaN(loss) ? null : toRsi(gain, loss);
+  }
+
+  toJSON(): IncrementalRsiState {
+    return {
+      type: 'rsi',
+      previousClose: this.previousClose,
+      gains: this.gains.toJSON(),
+      losses: this.losses.toJSON(),
+      pending: this.pending
+    };
+  }
+}
+
+export interface MacdValue {
+  value: number;
+  signal: number;
+  histogram: number;
+}
+
+export class IncrementalMacd extends StreamingIndicator<MacdValue> {
+  private constructor(
+    private readonly fast: Smoothing,
+    private readonly slow: Smoothing,
+    private readonly signal: Smoothing,
+    pending: PriceCandle | null
+  ) {
+    super(pending);
+  }
+
+  static create(options: { fast?: number; slow?: number; signal?: number } = {}): IncrementalMacd {
+    const { fast = 12, slow = 26, signal = 9 } = options;
+    return new IncrementalMacd(
+      Smoothing.create(fast, 'ema'),
+      Smoothing.create(slow, 'ema'),
+      Smoothing.create(signal, 'ema'),
+      null
+    );
+  }
+
+  static fromJSON(state: IncrementalMacdState): IncrementalMacd {
+    const parsed = IncrementalMacdStateSchema.parse(state);
+    return new IncrementalMacd(
+      new Smoothing(parsed.fast, 'ema'),
+      new Smoothing(parsed.slow, 'ema'),
+      new Smoothing(parsed.signal, 'ema'),
+      parsed.pending
+    );
+  }
+
+  protected commit(candle: PriceCandle): void {
+    this.fast.push(candle.close);
+    this.slow.push(candle.close);
+    // The signal line starts once the MACD line exists, as `ema` skips leading NaN
+    const line = this.fast.value - this.slow.value;
+    if (!Number.isNaN(line)) this.signal.push(line);
+  }
+
+  protected peek(candle: PriceCandle): MacdValue | null {
+    const value = this.fast.peek(candle.close) - this.slow.peek(candle.close);
+    if (Number.isNaN(value)) return null;
+    const signal = this.signal.peek(value);
+    return Number.isNaN(signal) ? null : { value, signal, histogram: value - signal };
+  }
+
+  toJSON(): IncrementalMacdState {
+    return {
+      type: 'macd',
+      fast: this.fast.toJSON(),
+      slow: this.slow.toJSON(),
+      signal: this.signal.toJSON(),
+      pending: this.pending
+    };
+  }
+}
+
+/**
+ * RSI(14), MACD(12, 26, 9), SMA20/50/200 and EMA20 kept current candle by
+ * candle, matching the same fields of `technicalAnalysis.indicators`. Seed it
+ * once from history, persist `toJSON()`, and restore it with `fromJSON` to
+ * keep updating after a restart.
+ */
+export class IncrementalIndicators {
+  private constructor(
+    private readonly sma20: IncrementalSma,
+    private readonly sma50: IncrementalSma,
+    private readonly sma200: IncrementalSma,
+    private readonly ema20: IncrementalEma,
+    private readonly rsi: IncrementalRsi,
+    private readonly macd: IncrementalMacd
+  ) {}
+
+  static create(): IncrementalIndicators {
+    return new IncrementalIndicators(
+      IncrementalSma.create(20),
+      IncrementalSma.create(50),
+      IncrementalSma.create(200),
+      IncrementalEma.create(20),
+      IncrementalRsi.create(14),
+      IncrementalMacd.create()
+    );
+  }
+
+  static fromHistory(candles: PriceCandle[]): IncrementalIndicators {
+    return IncrementalIndicators.create().seed(candles);
+  }
+
+  static fromJSON(state: IncrementalIndicatorsState): IncrementalIndicators {
+    const parsed = IncrementalIndicatorsStateSchema.parse(state);
+    return new IncrementalIndicators(
+      IncrementalSma.fromJSON(parsed.sma20),
+      IncrementalSma.fromJSON(parsed.sma50),
+      IncrementalSma.fromJSON(parsed.sma200),
+      IncrementalEma.fromJSON(parsed.ema20),
+      IncrementalRsi.fromJSON(parsed.rsi),
+      IncrementalMacd.fromJSON(parsed.macd)
+    );
+  }
+
+  update(candle: PriceCandle): StreamingIndicatorValues {
+    for (const indicator of this.indicators()) indicator.update(candle);
+    return this.values;
+  }
+
+  seed(candles: PriceCandle[]): this {
+    for (const candle of candles) this.update(candle);
+    return this;
+  }
+
+  get values(): StreamingIndicatorValues {
+    return {
+      rsi: this.rsi.value,
+      macd: this.macd.value,
+      movingAverages: {
+        sma20: this.sma20.value,
+        sma50: this.sma50.value,
+        sma200: this.sma200.value,
+        ema20: this.ema20.value
+      }
+    };
+  }
+
+  toJSON(): IncrementalIndicatorsState {
+    return {
+      type: 'indicators',
+      sma20: this.sma20.toJSON(),
+      sma50: this.sma50.toJSON(),
+      sma200: this.sma200.toJSON(),
+      ema20: this.ema20.toJSON(),
+      rsi: this.rsi.toJSON(),
+      macd: this.macd.toJSON()
+    };
+  }
+
+  private indicators(): Array<StreamingIndicator<unknown>> {
+    return [this.sma20, this.sma50, this.sma200, this.ema20, this.rsi, this.macd];
+  }
+}
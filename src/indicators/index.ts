@@ -0,0 +1,15 @@
+// src/indicators/index.ts
+// Pure indicator functions. Each returns series aligned with its input,
+// with NaN entries while the indicator is still warming up.
+export { sma, ema, wilderSmooth, closes, latest, latestValues } from './averages';
+export { rsi, macd, stochastic } from './momentum';
+export type { MacdOptions, MacdSeries, StochasticOptions, StochasticSeries } from './momentum';
+export { bollingerBands, trueRange, atr } from './volatility';
+export type { BollingerOptions, BollingerSeries } from './volatility';
+export { adx, ichimoku, parabolicSar } from './trend';
+export type { AdxSeries, IchimokuOptions, IchimokuSeries, ParabolicSarOptions, ParabolicSarSeries } from './trend';
+export { obv, vwap } from './volume';
+export { alignByTimestamp, priceRatio, returns, rollingBeta, rollingCorrelation } from './relative';
+export { computeIndicatorSeries } from './series';
+export { IncrementalEma, IncrementalIndicators, IncrementalMacd, IncrementalRsi, IncrementalSma } from './incremental';
+export type { MacdValue } from './incremental';
@@ -0,0 +1,98 @@
+// src/indicators/momentum.ts
+import { PriceCandle } from '../types/technical';
+import { closes, ema, sma } from './averages';
+
+/**
+ * Relative Strength Index with Wilder smoothing over `period`.
+ */
+export function rsi(candles: PriceCandle[], period: number = 14): number[] {
+  const result = new Array<number>(candles.length).fill(NaN);
+  if (candles.length <= period) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = candles[i].close - candles[i - 1].close;
+    if (change >= 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+  result[period] = toRsi(avgGain, avgLoss);
+
+  for (let i = period + 1; i < candles.length; i++) {
+    const change = candles[i].close - candles[i - 1].close;
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi(avgGain, avgLoss);
+  }
+  return result;
+}
+
+export function toRsi(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+export interface MacdOptions {
+  fast?: number;
+  slow?: number;
+  signal?: number;
+}
+
+export interface MacdSeries {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+}
+
+export function macd(candles: PriceCandle[], options: MacdOptions = {}): MacdSeries {
+  const { fast = 12, slow = 26, signal = 9 } = options;
+  const prices = closes(candles);
+  const fastEma = ema(prices, fast);
+  const slowEma = ema(prices, slow);
+
+  const macdLine = prices.map((_, i) => fastEma[i] - slowEma[i]);
+  const signalLine = ema(macdLine, signal);
+
+  return {
+    macd: macdLine,
+    signal: signalLine,
+    histogram: macdLine.map((value, i) => value - signalLine[i])
+  };
+}
+
+export interface StochasticOptions {
+  /** Lookback for the highest high / lowest low */
+  kPeriod?: number;
+  /** SMA applied to %K to get %D */
+  dPeriod?: number;
+  /** SMA applied to raw %K first; 1 is the fast stochastic, 3 the slow one */
+  smooth?: number;
+}
+
+export interface StochasticSeries {
+  k: number[];
+  d: number[];
+}
+
+export function stochastic(candles: PriceCandle[], options: StochasticOptions = {}): StochasticSeries {
+  const { kPeriod = 14, dPeriod = 3, smooth = 1 } = options;
+  const rawK = candles.map((candle, i) => {
+    if (i < kPeriod - 1) return NaN;
+    const window = candles.slice(i - kPeriod + 1, i + 1);
+    const highest = Math.max(...window.map(c => c.high));
+    const lowest = Math.min(...window.map(c => c.low));
+    return highest === lowest ? 50 : ((candle.close - lowest) / (highest - lowest)) * 100;
+  });
+
+  const k = smooth > 1 ? smaSkippingWarmup(rawK, smooth) : rawK;
+  return { k, d: smaSkippingWarmup(k, dPeriod) };
+}
+
+// SMA over a series whose first entries are NaN warm-up values
+function smaSkippingWarmup(values: number[], period: number): number[] {
+  const start = values.findIndex(value => !Number.isNaN(value));
+  if (start === -1) return values.map(() => NaN);
+  return [...values.slice(0, start), ...sma(values.slice(start), period)];
+}
@@ -0,0 +1,81 @@
+// src/indicators/relative.ts
+import { PriceCandle } from '../types/technical';
+
+/**
+ * Keeps only the candles whose timestamp appears in both series, so the
+ * two can be compared index by index.
+ */
+export function alignByTimestamp(asset: PriceCandle[], benchmark: PriceCandle[]): [PriceCandle[], PriceCandle[]] {
+  const byTimestamp = new Map(benchmark.map(candle => [candle.timestamp, candle]));
+  const alignedAsset: PriceCandle[] = [];
+  const alignedBenchmark: PriceCandle[] = [];
+  for (const candle of asset) {
+    const match = byTimestamp.get(candle.timestamp);
+    if (match) {
+      alignedAsset.push(candle);
+      alignedBenchmark.push(match);
+    }
+  }
+  return [alignedAsset, alignedBenchmark];
+}
+
+/**
+ * Close-to-close ratio of two aligned series, e.g. the token priced in SOL.
+ */
+export function priceRatio(asset: PriceCandle[], benchmark: PriceCandle[]): number[] {
+  return asset.map((candle, i) => benchmark[i].close > 0 ? candle.close / benchmark[i].close : NaN);
+}
+
+/**
+ * Simple close-to-close returns. The first entry is NaN.
+ */
+export function returns(candles: PriceCandle[]): number[] {
+  return candles.map((candle, i) => i === 0 || candles[i - 1].close === 0 ? NaN : candle.close / candles[i - 1].close - 1);
+}
+
+/**
+ * Pearson correlation of the two series over a rolling window. Windows
+ * containing NaN, or with no variance, are NaN.
+ */
+export function rollingCorrelation(x: number[], y: number[], period: number = 30): number[] {
+  return rolling(x, y, period, ({ covariance, varianceX, varianceY }) =>
+    varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : NaN
+  );
+}
+
+/**
+ * Beta of `asset` returns against `benchmark` returns over a rolling
+ * window: how far the asset typically moves for a 1% benchmark move.
+ */
+export function rollingBeta(asset: number[], benchmark: number[], period: number = 30): number[] {
+  return rolling(asset, benchmark, period, ({ covariance, varianceY }) =>
+    varianceY > 0 ? covariance / varianceY : NaN
+  );
+}
+
+function rolling(
+  x: number[],
+  y: number[],
+  period: number,
+  statistic: (moments: { covariance: number; varianceX: number; varianceY: number }) => number
+): number[] {
+  const result = new Array<number>(x.length).fill(NaN);
+  for (let i = period - 1; i < x.length; i++) {
+    const xs = x.slice(i - period + 1, i + 1);
+    const ys = y.slice(i - period + 1, i + 1);
+    if (xs.some(Number.isNaN) || ys.some(Number.isNaN)) continue;
+
+    const meanX = xs.reduce((sum, value) => sum + value, 0) / period;
+    const meanY = ys.reduce((sum, value) => sum + value, 0) / period;
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let j = 0; j < period; j++) {
+      covariance += (xs[j] - meanX) * (ys[j] - meanY);
+      varianceX += (xs[j] - meanX) ** 2;
+      varianceY += (ys[j] - meanY) ** 2;
+    }
+    result[i] = statistic({ covariance, varianceX, varianceY });
+  }
+  return result;
+}
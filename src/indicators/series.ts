@@ -0,0 +1,47 @@
+// src/indicators/series.ts
+import { PriceCandle } from '../types/technical';
+import { closes, ema, sma } from './averages';
+import { macd, rsi, stochastic } from './momentum';
+import { atr, bollingerBands } from './volatility';
+import { adx, ichimoku, parabolicSar } from './trend';
+import { obv, vwap } from './volume';
+
+/**
+ * Every indicator in the standard set, with default periods, as named series
+ * aligned with `candles`.
+ */
+export function computeIndicatorSeries(candles: PriceCandle[]): Record<string, number[]> {
+  const prices = closes(candles);
+  const macdSeries = macd(candles);
+  const bands = bollingerBands(candles);
+  const stoch = stochastic(candles, { smooth: 3 });
+  const directional = adx(candles);
+  const cloud = ichimoku(candles);
+
+  return {
+    sma20: sma(prices, 20),
+    sma50: sma(prices, 50),
+    sma200: sma(prices, 200),
+    ema20: ema(prices, 20),
+    rsi: rsi(candles),
+    macd: macdSeries.macd,
+    macdSignal: macdSeries.signal,
+    macdHistogram: macdSeries.histogram,
+    bollingerUpper: bands.upper,
+    bollingerMiddle: bands.middle,
+    bollingerLower: bands.lower,
+    atr: atr(candles),
+    stochasticK: stoch.k,
+    stochasticD: stoch.d,
+    adx: directional.adx,
+    plusDI: directional.plusDI,
+    minusDI: directional.minusDI,
+    obv: obv(candles),
+    vwap: vwap(candles),
+    ichimokuConversion: cloud.conversion,
+    ichimokuBase: cloud.base,
+    ichimokuSpanA: cloud.spanA,
+    ichimokuSpanB: cloud.spanB,
+    parabolicSar: parabolicSar(candles).sar
+  };
+}
@@ -0,0 +1,152 @@
+// src/indicators/trend.ts
+import { PriceCandle } from '../types/technical';
+import { closes, wilderSmooth } from './averages';
+import { trueRange } from './volatility';
+
+export interface AdxSeries {
+  adx: number[];
+  plusDI: number[];
+  minusDI: number[];
+}
+
+/**
+ * Wilder's Average Directional Index. DI values start at index `period`,
+ * ADX at `2 * period - 1`.
+ */
+export function adx(candles: PriceCandle[], period: number = 14): AdxSeries {
+  const plusDM = candles.map((candle, i) => {
+    if (i === 0) return NaN;
+    const up = candle.high - candles[i - 1].high;
+    const down = candles[i - 1].low - candle.low;
+    return up > down && up > 0 ? up : 0;
+  });
+  const minusDM = candles.map((candle, i) => {
+    if (i === 0) return NaN;
+    const up = candle.high - candles[i - 1].high;
+    const down = candles[i - 1].low - candle.low;
+    return down > up && down > 0 ? down : 0;
+  });
+
+  const smoothedTr = wilderSmooth(trueRange(candles), period);
+  const smoothedPlus = wilderSmooth(plusDM, period);
+  const smoothedMinus = wilderSmooth(minusDM, period);
+
+  const plusDI = smoothedTr.map((tr, i) => tr === 0 ? 0 : (100 * smoothedPlus[i]) / tr);
+  const minusDI = smoothedTr.map((tr, i) => tr === 0 ? 0 : (100 * smoothedMinus[i]) / tr);
+  const dx = plusDI.map((plus, i) => {
+    const total = plus + minusDI[i];
+    return total === 0 ? 0 : (100 * Math.abs(plus - minusDI[i])) / total;
+  });
+
+  return { adx: wilderSmooth(dx, period), plusDI, minusDI };
+}
+
+export interface IchimokuOptions {
+  conversionPeriod?: number;
+  basePeriod?: number;
+  spanBPeriod?: number;
+  /** How far the cloud is projected forward (and the lagging span back) */
+  displacement?: number;
+}
+
+export interface IchimokuSeries {
+  /** Tenkan-sen */
+  conversion: number[];
+  /** Kijun-sen */
+  base: number[];
+  /** Senkou span A, already shifted so `spanA[i]` is the cloud edge at candle `i` */
+  spanA: number[];
+  /** Senkou span B, shifted like `spanA` */
+  spanB: number[];
+  /** Chikou span: `lagging[i]` is the close `displacement` candles after `i` */
+  lagging: number[];
+}
+
+export function ichimoku(candles: PriceCandle[], options: IchimokuOptions = {}): IchimokuSeries {
+  const { conversionPeriod = 9, basePeriod = 26, spanBPeriod = 52, displacement = 26 } = options;
+  const conversion = midpoint(candles, conversionPeriod);
+  const base = midpoint(candles, basePeriod);
+  const rawSpanA = conversion.map((value, i) => (value + base[i]) / 2);
+  const rawSpanB = midpoint(candles, spanBPeriod);
+  const prices = closes(candles);
+
+  return {
+    conversion,
+    base,
+    spanA: candles.map((_, i) => i >= displacement ? rawSpanA[i - displacement] : NaN),
+    spanB: candles.map((_, i) => i >= displacement ? rawSpanB[i - displacement] : NaN),
+    lagging: candles.map((_, i) => i + displacement < prices.length ? prices[i + displacement] : NaN)
+  };
+}
+
+function midpoint(candles: PriceCandle[], period: number): number[] {
+  return candles.map((_, i) => {
+    if (i < period - 1) return NaN;
+    const window = candles.slice(i - period + 1, i + 1);
+    return (Math.max(...window.map(c => c.high)) + Math.min(...window.map(c => c.low))) / 2;
+  });
+}
+
+export interface ParabolicSarOptions {
+  /** Acceleration factor increment */
+  step?: number;
+  /** Acceleration factor cap */
+  max?: number;
+}
+
+export interface ParabolicSarSeries {
+  sar: number[];
+  direction: Array<'up' | 'down' | null>;
+}
+
+/**
+ * Wilder's Parabolic SAR. The initial direction is taken from the first two closes.
+ */
+export function parabolicSar(candles: PriceCandle[], options: ParabolicSarOptions = {}): ParabolicSarSeries {
+  const { step = 0.02, max = 0.2 } = options;
+  const sar = new Array<number>(candles.length).fill(NaN);
+  const direction = new Array<'up' | 'down' | null>(candles.length).fill(null);
+  if (candles.length < 2) return { sar, direction };
+
+  let isLong = candles[1].close >= candles[0].close;
+  let current = isLong ? candles[0].low : candles[0].high;
+  let extreme = isLong ? candles[1].high : candles[1].low;
+  let acceleration = step;
+  sar[1] = current;
+  direction[1] = isLong ? 'up' : 'down';
+
+  for (let i = 2; i < candles.length; i++) {
+    const candle = candles[i];
+    current = current + acceleration * (extreme - current);
+
+    if (isLong) {
+      // SAR never moves into the prior two candles' range
+      current = Math.min(current, candles[i - 1].low, candles[i - 2].low);
+      if (candle.low < current) {
+        isLong = false;
+        current = extreme;
+        extreme = candle.low;
+        acceleration = step;
+      } else if (candle.high > extreme) {
+        extreme = candle.high;
+        acceleration = Math.min(acceleration + step, max);
+      }
+    } else {
+      current = Math.max(current, candles[i - 1].high, candles[i - 2].high);
+      if (candle.high > current) {
+        isLong = true;
+        current = extreme;
+        extreme = candle.high;
+        acceleration = step;
+      } else if (candle.low < extreme) {
+        extreme = candle.low;
+        acceleration = Math.min(acceleration + step, max);
+      }
+    }
+
+    sar[i] = current;
+    direction[i] = isLong ? 'up' : 'down';
+  }
+
+  return { sar, direction };
+}
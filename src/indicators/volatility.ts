@@ -0,0 +1,61 @@
+// src/indicators/volatility.ts
+import { PriceCandle } from '../types/technical';
+import { closes, sma, wilderSmooth } from './averages';
+
+export interface BollingerOptions {
+  period?: number;
+  /** Band width in standard deviations */
+  multiplier?: number;
+}
+
+export interface BollingerSeries {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+  /** (upper - lower) / middle */
+  bandwidth: number[];
+}
+
+/**
+ * Bollinger Bands around an SMA, using the population standard deviation.
+ */
+export function bollingerBands(candles: PriceCandle[], options: BollingerOptions = {}): BollingerSeries {
+  const { period = 20, multiplier = 2 } = options;
+  const prices = closes(candles);
+  const middle = sma(prices, period);
+
+  const deviations = prices.map((_, i) => {
+    if (Number.isNaN(middle[i])) return NaN;
+    const window = prices.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((sum, price) => sum + (price - middle[i]) ** 2, 0) / period);
+  });
+
+  const upper = middle.map((value, i) => value + multiplier * deviations[i]);
+  const lower = middle.map((value, i) => value - multiplier * deviations[i]);
+
+  return {
+    upper,
+    middle,
+    lower,
+    bandwidth: middle.map((value, i) => value === 0 ? NaN : (upper[i] - lower[i]) / value)
+  };
+}
+
+export function trueRange(candles: PriceCandle[]): number[] {
+  return candles.map((candle, i) => {
+    if (i === 0) return NaN;
+    const previousClose = candles[i - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+  });
+}
+
+/**
+ * Average True Range with Wilder smoothing; the first value is at index `period`.
+ */
+export function atr(candles: PriceCandle[], period: number = 14): number[] {
+  return wilderSmooth(trueRange(candles), period);
+}
@@ -0,0 +1,32 @@
+// src/indicators/volume.ts
+import { PriceCandle } from '../types/technical';
+
+/**
+ * On-Balance Volume, starting from 0 at the first candle.
+ */
+export function obv(candles: PriceCandle[]): number[] {
+  const result: number[] = [];
+  candles.forEach((candle, i) => {
+    if (i === 0) {
+      result.push(0);
+      return;
+    }
+    const change = candle.close - candles[i - 1].close;
+    result.push(result[i - 1] + (change > 0 ? candle.volume : change < 0 ? -candle.volume : 0));
+  });
+  return result;
+}
+
+/**
+ * Cumulative volume-weighted average of the typical price, anchored at the
+ * first candle. NaN until some volume has traded.
+ */
+export function vwap(candles: PriceCandle[]): number[] {
+  let weighted = 0;
+  let volume = 0;
+  return candles.map(candle => {
+    weighted += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+    return volume === 0 ? NaN : weighted / volume;
+  });
+}
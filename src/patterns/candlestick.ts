@@ -0,0 +1,195 @@
+// src/patterns/candlestick.ts
+import { CandlestickSignal, PriceCandle } from '../types/technical';
+
+export interface CandlestickPatternOptions {
+  /** Only signals completed within this many of the latest candles are reported, defaults to 10 */
+  lookback?: number;
+  /** Candles used to judge the trend leading into a signal, defaults to 5 */
+  trendPeriod?: number;
+  support?: number[];
+  resistance?: number[];
+  /** A level counts as near when it lies within the candle's high-low range widened by this fraction, defaults to 0.01 */
+  levelTolerance?: number;
+}
+
+type Signal = Pick<CandlestickSignal, 'name' | 'implication'>;
+
+/**
+ * Detects single- and multi-candle signals: doji, hammer / hanging man,
+ * shooting star, engulfing, harami, morning / evening star and three white
+ * soldiers / black crows. Each signal is stamped with its last candle and,
+ * when `support` / `resistance` are given, the level it formed at.
+ * Signals are returned oldest first.
+ */
+export function detectCandlestickPatterns(
+  candles: PriceCandle[],
+  options: CandlestickPatternOptions = {}
+): CandlestickSignal[] {
+  const { lookback = 10, trendPeriod = 5, support = [], resistance = [], levelTolerance = 0.01 } = options;
+  const signals: CandlestickSignal[] = [];
+
+  for (let i = Math.max(candles.length - lookback, 1); i < candles.length; i++) {
+    const trend = priorTrend(candles, i, trendPeriod);
+    const averageRange = averageCandleRange(candles, i, 10);
+
+    const found = [
+      ...singleCandleSignals(candles[i], trend),
+      ...twoCandleSignals(candles[i - 1], candles[i], averageRange),
+      ...(i >= 2 ? threeCandleSignals(candles.slice(i - 2, i + 1), averageRange, priorTrend(candles, i - 2, trendPeriod)) : [])
+    ];
+
+    for (const signal of found) {
+      signals.push({
+        ...signal,
+        timestamp: candles[i].timestamp,
+        ...nearestLevel(candles[i], support, resistance, levelTolerance)
+      });
+    }
+  }
+
+  return signals;
+}
+
+function singleCandleSignals(candle: PriceCandle, trend: 'up' | 'down' | null): Signal[] {
+  const { body, range, upperWick, lowerWick } = measure(candle);
+  if (range === 0) return [];
+
+  if (body <= range * 0.1) {
+    return [{ name: 'Doji', implication: 'neutral' }];
+  }
+
+  // Hammer and hanging man share a shape; the trend into them decides which it is
+  if (lowerWick >= body * 2 && upperWick <= range * 0.1) {
+    if (trend === 'down') return [{ name: 'Hammer', implication: 'bullish' }];
+    if (trend === 'up') return [{ name: 'Hanging Man', implication: 'bearish' }];
+  }
+
+  if (upperWick >= body * 2 && lowerWick <= range * 0.1 && trend === 'up') {
+    return [{ name: 'Shooting Star', implication: 'bearish' }];
+  }
+
+  return [];
+}
+
+function twoCandleSignals(previous: PriceCandle, current: PriceCandle, averageRange: number): Signal[] {
+  const prev = measure(previous);
+  const curr = measure(current);
+  if (prev.body === 0 || curr.body === 0) return [];
+
+  const prevTop = Math.max(previous.open, previous.close);
+  const prevBottom = Math.min(previous.open, previous.close);
+  const currTop = Math.max(current.open, current.close);
+  const currBottom = Math.min(current.open, current.close);
+  const oppositeColors = prev.bullish !== curr.bullish;
+
+  if (oppositeColors && currTop >= prevTop && currBottom <= prevBottom && curr.body > prev.body) {
+    return [curr.bullish
+      ? { name: 'Bullish Engulfing', implication: 'bullish' }
+      : { name: 'Bearish Engulfing', implication: 'bearish' }];
+  }
+
+  // Harami: a large candle followed by a small one inside its body
+  if (
+    oppositeColors &&
+    prev.range >= averageRange &&
+    currTop <= prevTop &&
+    currBottom >= prevBottom &&
+    curr.body <= prev.body * 0.5
+  ) {
+    return [curr.bullish
+      ? { name: 'Bullish Harami', implication: 'bullish' }
+      : { name: 'Bearish Harami', implication: 'bearish' }];
+  }
+
+  return [];
+}
+
+function threeCandleSignals(
+  [first, second, third]: PriceCandle[],
+  averageRange: number,
+  trend: 'up' | 'down' | null
+): Signal[] {
+  const a = measure(first);
+  const b = measure(second);
+  const c = measure(third);
+  const firstMidpoint = (first.open + first.close) / 2;
+
+  // Star: a long candle, a small indecisive one, then a long candle the other
+  // way that closes past the first one's midpoint
+  const isStar = a.body >= averageRange * 0.6 && b.body <= a.body * 0.3 && c.body >= a.body * 0.5;
+  if (isStar && !a.bullish && c.bullish && third.close > firstMidpoint) {
+    return [{ name: 'Morning Star', implication: 'bullish' }];
+  }
+  if (isStar && a.bullish && !c.bullish && third.close < firstMidpoint) {
+    return [{ name: 'Evening Star', implication: 'bearish' }];
+  }
+
+  const candles = [first, second, third];
+  const measures = [a, b, c];
+  const strongBodies = measures.every(m => m.range > 0 && m.body >= m.range * 0.5);
+  // Each candle opens within the previous body and closes beyond its close
+  const stepsUp = [1, 2].every(i =>
+    candles[i].close > candles[i - 1].close &&
+    candles[i].open >= candles[i - 1].open &&
+    candles[i].open <= candles[i - 1].close
+  );
+  const stepsDown = [1, 2].every(i =>
+    candles[i].close < candles[i - 1].close &&
+    candles[i].open <= candles[i - 1].open &&
+    candles[i].open >= candles[i - 1].close
+  );
+
+  // Only at the start of a run, not on every window of an established trend
+  if (strongBodies && measures.every(m => m.bullish) && stepsUp && trend !== 'up') {
+    return [{ name: 'Three White Soldiers', implication: 'bullish' }];
+  }
+  if (strongBodies && measures.every(m => !m.bullish) && stepsDown && trend !== 'down') {
+    return [{ name: 'Three Black Crows', implication: 'bearish' }];
+  }
+
+  return [];
+}
+
+function measure(candle: PriceCandle) {
+  return {
+    body: Math.abs(candle.close - candle.open),
+    range: candle.high - candle.low,
+    upperWick: candle.high - Math.max(candle.open, candle.close),
+    lowerWick: Math.min(candle.open, candle.close) - candle.low,
+    bullish: candle.close > candle.open
+  };
+}
+
+// Direction of the closes over up to `period` candles before the signal candle
+function priorTrend(candles: PriceCandle[], index: number, period: number): 'up' | 'down' | null {
+  const from = Math.max(index - 1 - period, 0);
+  if (from >= index - 1) return null;
+  const change = candles[index - 1].close - candles[from].close;
+  return change > 0 ? 'up' : change < 0 ? 'down' : null;
+}
+
+function averageCandleRange(candles: PriceCandle[], index: number, period: number): number {
+  const window = candles.slice(Math.max(index - period, 0), index);
+  if (window.length === 0) return 0;
+  return window.reduce((sum, candle) => sum + (candle.high - candle.low), 0) / window.length;
+}
+
+function nearestLevel(
+  candle: PriceCandle,
+  support: number[],
+  resistance: number[],
+  tolerance: number
+): Pick<CandlestickSignal, 'nearLevel' | 'level'> {
+  const low = candle.low * (1 - tolerance);
+  const high = candle.high * (1 + tolerance);
+  const candidates = [
+    ...support.map(level => ({ nearLevel: 'support' as const, level })),
+    ...resistance.map(level => ({ nearLevel: 'resistance' as const, level }))
+  ].filter(({ level }) => level >= low && level <= high);
+
+  if (candidates.length === 0) return { nearLevel: null, level: null };
+
+  return candidates.reduce((best, candidate) =>
+    Math.abs(candidate.level - candle.close) < Math.abs(best.level - candle.close) ? candidate : best
+  );
+}
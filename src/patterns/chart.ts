@@ -0,0 +1,434 @@
+// src/patterns/chart.ts
+import { ChartPattern, PriceCandle } from '../types/technical';
+import { Pivot, clamp01, findPivots, fitLine, fitParabola, lineAt } from './geometry';
+
+export interface ChartPatternOptions {
+  /** Candles on each side a swing high/low must dominate, defaults to 3 */
+  pivotWindow?: number;
+  /** Max relative difference between levels that should match, e.g. the two tops of a double top. Defaults to 0.03 */
+  tolerance?: number;
+  /** Only patterns ending within this many candles of the last one are reported, defaults to 30 */
+  maxAge?: number;
+}
+
+type Implication = ChartPattern['implication'];
+
+interface Match {
+  name: string;
+  implication: Implication;
+  confidence: number;
+  priceTarget: number | null;
+  start: number;
+  end: number;
+}
+
+// A level counts as broken once a close is beyond it by this fraction
+const BREAKOUT_MARGIN = 0.005;
+
+// Patterns whose swings contain a smaller pattern, e.g. the troughs either
+// side of a head and shoulders also form a double bottom
+const SUPERSEDES: Record<string, string[]> = {
+  'Triple Top': ['Double Top', 'Double Bottom'],
+  'Triple Bottom': ['Double Bottom', 'Double Top'],
+  'Head and Shoulders': ['Double Top', 'Double Bottom'],
+  'Inverse Head and Shoulders': ['Double Top', 'Double Bottom'],
+  'Cup and Handle': ['Double Top']
+};
+
+/**
+ * Detects geometric chart patterns over the candles: double/triple tops and
+ * bottoms, (inverse) head and shoulders, triangles, wedges, flags, pennants
+ * and cup-and-handle. Confidence reflects how closely the swings fit the
+ * ideal shape; price targets use each pattern's measured move. Overlapping
+ * matches of the same pattern are collapsed into the most confident one.
+ */
+export function detectChartPatterns(candles: PriceCandle[], options: ChartPatternOptions = {}): ChartPattern[] {
+  const { pivotWindow = 3, tolerance = 0.03, maxAge = 30 } = options;
+  if (candles.length < pivotWindow * 2 + 5) return [];
+
+  const pivots = findPivots(candles, pivotWindow);
+  const matches: Match[] = [
+    ...findReversalPatterns(candles, pivots, tolerance),
+    ...findConvergingPatterns(candles, pivots),
+    ...findFlagsAndPennants(candles, maxAge),
+    ...findCupAndHandle(candles, pivots, tolerance)
+  ];
+
+  const recent = matches.filter(match => match.end >= candles.length - 1 - maxAge);
+
+  return collapseOverlaps(recent)
+    .sort((a, b) => b.end - a.end || b.confidence - a.confidence)
+    .map(match => ({
+      name: match.name,
+      confidence: round(clamp01(match.confidence)),
+      implication: match.implication,
+      priceTarget: match.priceTarget,
+      startTimestamp: candles[match.start].timestamp,
+      endTimestamp: candles[match.end].timestamp
+    }));
+}
+
+function findReversalPatterns(candles: PriceCandle[], pivots: Pivot[], tolerance: number): Match[] {
+  const matches: Match[] = [];
+
+  for (let j = 2; j < pivots.length; j++) {
+    const five = j >= 4 ? pivots.slice(j - 4, j + 1) : null;
+    const fiveMatch = five && (matchTriple(candles, five, tolerance) || matchHeadAndShoulders(candles, five, tolerance));
+    if (fiveMatch) {
+      matches.push(fiveMatch);
+      continue;
+    }
+
+    const double = matchDouble(candles, pivots.slice(j - 2, j + 1), tolerance);
+    if (double) matches.push(double);
+  }
+
+  return matches;
+}
+
+function matchDouble(candles: PriceCandle[], [first, middle, last]: Pivot[], tolerance: number): Match | null {
+  const isTop = first.type === 'high';
+  const level = (first.price + last.price) / 2;
+  const difference = Math.abs(first.price - last.price) / level;
+  const depth = Math.abs(level - middle.price) / level;
+
+  if (difference > tolerance || depth < tolerance || last.index - first.index < 5) return null;
+
+  const breakout = findBreakout(candles, last.index, middle.price, isTop ? 'below' : 'above');
+  const height = Math.abs(level - middle.price);
+
+  return {
+    name: isTop ? 'Double Top' : 'Double Bottom',
+    implication: isTop ? 'bearish' : 'bullish',
+    confidence: 0.5 * (1 - difference / tolerance) + 0.3 * clamp01(depth / 0.1) + (breakout !== null ? 0.2 : 0),
+    priceTarget: isTop ? middle.price - height : middle.price + height,
+    start: first.index,
+    end: breakout ?? last.index
+  };
+}
+
+function matchTriple(candles: PriceCandle[], pivots: Pivot[], tolerance: number): Match | null {
+  const isTop = pivots[0].type === 'high';
+  const peaks = [pivots[0], pivots[2], pivots[4]].map(pivot => pivot.price);
+  const troughs = [pivots[1], pivots[3]].map(pivot => pivot.price);
+
+  const level = peaks.reduce((sum, price) => sum + price, 0) / 3;
+  const spread = (Math.max(...peaks) - Math.min(...peaks)) / level;
+  const neckline = isTop ? Math.min(...troughs) : Math.max(...troughs);
+  const depth = Math.abs(level - neckline) / level;
+  // Rising troughs under flat tops are a triangle rather than a triple top
+  const necklineSkew = Math.abs(troughs[0] - troughs[1]) / level;
+
+  if (spread > tolerance || depth < tolerance || necklineSkew > tolerance) return null;
+
+  const last = pivots[4];
+  const breakout = findBreakout(candles, last.index, neckline, isTop ? 'below' : 'above');
+  const height = Math.abs(level - neckline);
+
+  return {
+    name: isTop ? 'Triple Top' : 'Triple Bottom',
+    implication: isTop ? 'bearish' : 'bullish',
+    confidence: 0.55 * (1 - spread / tolerance) + 0.25 * clamp01(depth / 0.1) + (breakout !== null ? 0.2 : 0),
+    priceTarget: isTop ? neckline - height : neckline + height,
+    start: pivots[0].index,
+    end: breakout ?? last.index
+  };
+}
+
+function matchHeadAndShoulders(candles: PriceCandle[], pivots: Pivot[], tolerance: number): Match | null {
+  const [leftShoulder, leftTrough, head, rightTrough, rightShoulder] = pivots;
+  const isTop = head.type === 'high';
+
+  const shoulderLevel = (leftShoulder.price + rightShoulder.price) / 2;
+  const shoulderDifference = Math.abs(leftShoulder.price - rightShoulder.price) / shoulderLevel;
+  // How far the head extends beyond the more extreme shoulder
+  const prominence = isTop
+    ? (head.price - Math.max(leftShoulder.price, rightShoulder.price)) / shoulderLevel
+    : (Math.min(leftShoulder.price, rightShoulder.price) - head.price) / shoulderLevel;
+
+  if (prominence < tolerance / 2 || shoulderDifference > tolerance * 2) return null;
+
+  const neckline = fitLine([
+    { x: leftTrough.index, y: leftTrough.price },
+    { x: rightTrough.index, y: rightTrough.price }
+  ]);
+  const necklineAtHead = lineAt(neckline, head.index);
+  const height = Math.abs(head.price - necklineAtHead);
+  const necklineSkew = Math.abs(leftTrough.price - rightTrough.price) / shoulderLevel;
+
+  const breakout = findBreakoutOfLine(candles, rightShoulder.index, neckline, isTop ? 'below' : 'above');
+  const necklineAtEnd = lineAt(neckline, breakout ?? rightShoulder.index);
+
+  return {
+    name: isTop ? 'Head and Shoulders' : 'Inverse Head and Shoulders',
+    implication: isTop ? 'bearish' : 'bullish',
+    confidence:
+      0.35 * (1 - shoulderDifference / (tolerance * 2)) +
+      0.25 * clamp01(prominence / (tolerance * 2)) +
+      0.2 * (1 - clamp01(necklineSkew / (tolerance * 2))) +
+      (breakout !== null ? 0.2 : 0),
+    priceTarget: isTop ? necklineAtEnd - height : necklineAtEnd + height,
+    start: leftShoulder.index,
+    end: breakout ?? rightShoulder.index
+  };
+}
+
+/**
+ * Triangles and wedges: two trendlines fitted through the recent swing highs
+ * and lows that converge. Their slopes decide which pattern it is.
+ */
+function findConvergingPatterns(candles: PriceCandle[], pivots: Pivot[]): Match[] {
+  const matches: Match[] = [];
+
+  for (let j = 3; j < pivots.length; j++) {
+    for (const size of [6, 5, 4]) {
+      if (j - size + 1 < 0) continue;
+      const match = matchConverging(candles, pivots.slice(j - size + 1, j + 1));
+      if (match) {
+        matches.push(match);
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
+
+function matchConverging(candles: PriceCandle[], pivots: Pivot[]): Match | null {
+  const highs = pivots.filter(pivot => pivot.type === 'high').map(pivot => ({ x: pivot.index, y: pivot.price }));
+  const lows = pivots.filter(pivot => pivot.type === 'low').map(pivot => ({ x: pivot.index, y: pivot.price }));
+  if (highs.length < 2 || lows.length < 2) return null;
+
+  const start = pivots[0].index;
+  const end = pivots[pivots.length - 1].index;
+  const upper = fitLine(highs);
+  const lower = fitLine(lows);
+
+  const widthStart = lineAt(upper, start) - lineAt(lower, start);
+  const widthEnd = lineAt(upper, end) - lineAt(lower, end);
+  if (widthStart <= 0 || widthEnd <= 0 || widthEnd / widthStart > 0.8) return null;
+
+  // Slopes as the relative move of each line over the pattern
+  const mid = (lineAt(upper, start) + lineAt(lower, start)) / 2;
+  const upperMove = (upper.slope * (end - start)) / mid;
+  const lowerMove = (lower.slope * (end - start)) / mid;
+  const flat = 0.015;
+
+  let name: string;
+  let implication: Implication;
+  if (Math.abs(upperMove) < flat && lowerMove > flat) {
+    name = 'Ascending Triangle';
+    implication = 'bullish';
+  } else if (Math.abs(lowerMove) < flat && upperMove < -flat) {
+    name = 'Descending Triangle';
+    implication = 'bearish';
+  } else if (upperMove < -flat && lowerMove > flat) {
+    name = 'Symmetric Triangle';
+    implication = 'neutral';
+  } else if (upperMove > flat && lowerMove > upperMove) {
+    name = 'Rising Wedge';
+    implication = 'bearish';
+  } else if (lowerMove < -flat && upperMove < lowerMove) {
+    name = 'Falling Wedge';
+    implication = 'bullish';
+  } else {
+    return null;
+  }
+
+  const fit = (upper.r2 + lower.r2) / 2;
+  const touches = clamp01(pivots.length / 6);
+  const last = candles.length - 1;
+  const breakout = implication === 'bearish'
+    ? findBreakoutOfLine(candles, end, lower, 'below')
+    : implication === 'bullish'
+      ? findBreakoutOfLine(candles, end, upper, 'above')
+      : null;
+  const breakoutIndex = breakout ?? Math.min(end, last);
+
+  return {
+    name,
+    implication,
+    confidence: 0.5 * fit + 0.3 * touches + (breakout !== null ? 0.2 : 0),
+    priceTarget:
+      implication === 'bullish' ? lineAt(upper, breakoutIndex) + widthStart :
+      implication === 'bearish' ? lineAt(lower, breakoutIndex) - widthStart :
+      null,
+    start,
+    end: breakoutIndex
+  };
+}
+
+/**
+ * Flags and pennants: a sharp move (the pole) followed by a tight
+ * consolidation that is either a parallel channel (flag) or converging (pennant).
+ */
+function findFlagsAndPennants(candles: PriceCandle[], maxAge: number): Match[] {
+  const matches: Match[] = [];
+  const last = candles.length - 1;
+
+  for (let end = Math.max(last - maxAge, 0); end <= last; end++) {
+    let best: Match | null = null;
+
+    for (let length = 5; length <= 15; length++) {
+      const consolidationStart = end - length + 1;
+      for (let poleLength = 3; poleLength <= 10; poleLength++) {
+        const poleStart = consolidationStart - poleLength;
+        if (poleStart < 0) continue;
+
+        const match = matchFlag(candles, poleStart, consolidationStart, end);
+        if (match && (!best || match.confidence > best.confidence)) best = match;
+      }
+    }
+
+    if (best) matches.push(best);
+  }
+
+  return matches;
+}
+
+function matchFlag(candles: PriceCandle[], poleStart: number, consolidationStart: number, end: number): Match | null {
+  const poleBase = candles[poleStart].close;
+  const poleTop = candles[consolidationStart - 1].close;
+  const poleMove = (poleTop - poleBase) / poleBase;
+  if (Math.abs(poleMove) < 0.08) return null;
+
+  const bullish = poleMove > 0;
+  const consolidation = candles.slice(consolidationStart, end + 1);
+  const high = Math.max(...consolidation.map(candle => candle.high));
+  const low = Math.min(...consolidation.map(candle => candle.low));
+  const poleHeight = Math.abs(poleTop - poleBase);
+  if (high - low > poleHeight * 0.4) return null;
+
+  // The consolidation must hold most of the pole's gain
+  if (bullish ? low < poleBase + poleHeight * 0.5 : high > poleBase - poleHeight * 0.5) return null;
+
+  const upper = fitLine(consolidation.map((candle, i) => ({ x: i, y: candle.high })));
+  const lower = fitLine(consolidation.map((candle, i) => ({ x: i, y: candle.low })));
+  const widthStart = lineAt(upper, 0) - lineAt(lower, 0);
+  const widthEnd = lineAt(upper, consolidation.length - 1) - lineAt(lower, consolidation.length - 1);
+  if (widthStart <= 0 || widthEnd <= 0) return null;
+
+  const converging = widthEnd / widthStart < 0.6;
+  const parallel = Math.abs(widthEnd / widthStart - 1) < 0.3;
+  if (!converging && !parallel) return null;
+
+  // A flag drifts against the pole or sideways, never with it
+  const drift = ((upper.slope + lower.slope) / 2) * consolidation.length / poleHeight;
+  if (parallel && (bullish ? drift > 0.1 : drift < -0.1)) return null;
+
+  const name = converging
+    ? bullish ? 'Bullish Pennant' : 'Bearish Pennant'
+    : bullish ? 'Bull Flag' : 'Bear Flag';
+  const tightness = 1 - (high - low) / (poleHeight * 0.4);
+  const close = candles[end].close;
+
+  return {
+    name,
+    implication: bullish ? 'bullish' : 'bearish',
+    confidence: 0.35 * clamp01(Math.abs(poleMove) / 0.2) + 0.3 * tightness + 0.35 * ((upper.r2 + lower.r2) / 2),
+    priceTarget: bullish ? close + poleHeight : close - poleHeight,
+    start: poleStart,
+    end
+  };
+}
+
+/**
+ * Cup and handle: two similar rims around a rounded bottom, followed by a
+ * shallow pullback that runs to the latest candle.
+ */
+function findCupAndHandle(candles: PriceCandle[], pivots: Pivot[], tolerance: number): Match[] {
+  const matches: Match[] = [];
+  const last = candles.length - 1;
+  const highs = pivots.filter(pivot => pivot.type === 'high');
+
+  for (let r = highs.length - 1; r >= 1; r--) {
+    const rightRim = highs[r];
+    const handleLength = last - rightRim.index;
+    if (handleLength < 2) continue;
+
+    for (let l = r - 1; l >= 0; l--) {
+      const leftRim = highs[l];
+      const cupLength = rightRim.index - leftRim.index;
+      if (cupLength < 15 || handleLength > cupLength / 2) continue;
+
+      const match = matchCup(candles, leftRim, rightRim, tolerance);
+      if (match) matches.push(match);
+    }
+  }
+
+  return matches;
+}
+
+function matchCup(candles: PriceCandle[], leftRim: Pivot, rightRim: Pivot, tolerance: number): Match | null {
+  const rim = (leftRim.price + rightRim.price) / 2;
+  const rimDifference = Math.abs(leftRim.price - rightRim.price) / rim;
+  if (rimDifference > tolerance * 2) return null;
+
+  const cup = candles.slice(leftRim.index, rightRim.index + 1);
+  const bottomOffset = cup.reduce((best, candle, i) => candle.low < cup[best].low ? i : best, 0);
+  const bottom = cup[bottomOffset].low;
+  const depth = (rim - bottom) / rim;
+  if (depth < 0.08 || depth > 0.5) return null;
+
+  // The lowest point should sit in the middle half of the cup
+  const position = bottomOffset / (cup.length - 1);
+  if (position < 0.25 || position > 0.75) return null;
+
+  const { a, r2 } = fitParabola(cup.map(candle => candle.close));
+  if (a <= 0) return null;
+
+  const handle = candles.slice(rightRim.index + 1);
+  const handleLow = Math.min(...handle.map(candle => candle.low));
+  const pullback = (rightRim.price - handleLow) / (rim - bottom);
+  if (pullback <= 0 || pullback > 0.5) return null;
+
+  return {
+    name: 'Cup and Handle',
+    implication: 'bullish',
+    confidence: 0.45 * clamp01(r2) + 0.3 * (1 - rimDifference / (tolerance * 2)) + 0.25 * (1 - Math.abs(position - 0.5) * 4),
+    priceTarget: rim + (rim - bottom),
+    start: leftRim.index,
+    end: candles.length - 1
+  };
+}
+
+// First candle after `from` that closes beyond `level`, or null
+function findBreakout(candles: PriceCandle[], from: number, level: number, side: 'above' | 'below'): number | null {
+  for (let i = from + 1; i < candles.length; i++) {
+    const close = candles[i].close;
+    if (side === 'below' ? close < level * (1 - BREAKOUT_MARGIN) : close > level * (1 + BREAKOUT_MARGIN)) return i;
+  }
+  return null;
+}
+
+function findBreakoutOfLine(
+  candles: PriceCandle[],
+  from: number,
+  line: { slope: number; intercept: number },
+  side: 'above' | 'below'
+): number | null {
+  for (let i = from + 1; i < candles.length; i++) {
+    const level = line.slope * i + line.intercept;
+    const close = candles[i].close;
+    if (side === 'below' ? close < level * (1 - BREAKOUT_MARGIN) : close > level * (1 + BREAKOUT_MARGIN)) return i;
+  }
+  return null;
+}
+
+function collapseOverlaps(matches: Match[]): Match[] {
+  const kept: Match[] = [];
+  for (const match of [...matches].sort((a, b) => b.confidence - a.confidence)) {
+    const overlaps = kept.some(other =>
+      other.name === match.name && match.start <= other.end && other.start <= match.end
+    );
+    if (!overlaps) kept.push(match);
+  }
+
+  return kept.filter(match => !kept.some(other =>
+    SUPERSEDES[other.name]?.includes(match.name) && other.start <= match.start && match.end <= other.end
+  ));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
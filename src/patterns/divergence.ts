@@ -0,0 +1,87 @@
+// src/patterns/divergence.ts
+import { Divergence, PriceCandle } from '../types/technical';
+import { macd, rsi } from '../indicators';
+import { Pivot, clamp01, findPivots } from './geometry';
+
+export interface DivergenceOptions {
+  /** Candles on each side a price swing must dominate, defaults to 3 */
+  pivotWindow?: number;
+  /** Fewest and most candles between the two swings compared, defaults to 5 and 60 */
+  minSpan?: number;
+  maxSpan?: number;
+  /** Only divergences whose second swing is within this many candles of the last one, defaults to 30 */
+  maxAge?: number;
+}
+
+type Oscillator = Divergence['indicator'];
+
+/**
+ * Compares consecutive price swings with RSI and the MACD line at the same
+ * candles. Regular divergences (price makes a new extreme the oscillator
+ * does not confirm) warn of a reversal; hidden divergences (the oscillator
+ * makes the new extreme instead) point to the trend continuing.
+ */
+export function detectDivergences(candles: PriceCandle[], options: DivergenceOptions = {}): Divergence[] {
+  const { pivotWindow = 3, minSpan = 5, maxSpan = 60, maxAge = 30 } = options;
+  const pivots = findPivots(candles, pivotWindow);
+  const oscillators: Record<Oscillator, number[]> = {
+    rsi: rsi(candles),
+    macd: macd(candles).macd
+  };
+
+  const divergences: Divergence[] = [];
+  for (const type of ['low', 'high'] as const) {
+    const swings = pivots.filter(pivot => pivot.type === type);
+
+    for (let i = 1; i < swings.length; i++) {
+      const [first, second] = [swings[i - 1], swings[i]];
+      const span = second.index - first.index;
+      if (span < minSpan || span > maxSpan || second.index < candles.length - 1 - maxAge) continue;
+
+      for (const indicator of Object.keys(oscillators) as Oscillator[]) {
+        const divergence = compareSwings(candles, first, second, indicator, oscillators[indicator]);
+        if (divergence) divergences.push(divergence);
+      }
+    }
+  }
+
+  return divergences.sort((a, b) => a.endTimestamp - b.endTimestamp);
+}
+
+function compareSwings(
+  candles: PriceCandle[],
+  first: Pivot,
+  second: Pivot,
+  indicator: Oscillator,
+  values: number[]
+): Divergence | null {
+  const indicatorStart = values[first.index];
+  const indicatorEnd = values[second.index];
+  if (!Number.isFinite(indicatorStart) || !Number.isFinite(indicatorEnd)) return null;
+
+  const priceRises = second.price > first.price;
+  const indicatorRises = indicatorEnd > indicatorStart;
+  if (second.price === first.price || indicatorEnd === indicatorStart || priceRises === indicatorRises) return null;
+
+  // At lows: a lower price low is regular, a higher one hidden. At highs it is the reverse
+  const direction = first.type === 'low' ? 'bullish' : 'bearish';
+  const type = (first.type === 'low') !== priceRises ? 'regular' : 'hidden';
+
+  const finite = values.filter(Number.isFinite);
+  const indicatorRange = Math.max(...finite) - Math.min(...finite);
+  const priceMove = Math.abs(second.price - first.price) / first.price;
+  const indicatorMove = indicatorRange > 0 ? Math.abs(indicatorEnd - indicatorStart) / indicatorRange : 0;
+
+  return {
+    indicator,
+    type,
+    direction,
+    startTimestamp: candles[first.index].timestamp,
+    endTimestamp: candles[second.index].timestamp,
+    priceStart: first.price,
+    priceEnd: second.price,
+    indicatorStart,
+    indicatorEnd,
+    strength: Math.round(clamp01(0.5 * clamp01(priceMove / 0.05) + 0.5 * clamp01(indicatorMove / 0.2)) * 1000) / 1000
+  };
+}
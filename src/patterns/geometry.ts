@@ -0,0 +1,128 @@
+// src/patterns/geometry.ts
+import { PriceCandle } from '../types/technical';
+
+export interface Pivot {
+  index: number;
+  price: number;
+  type: 'high' | 'low';
+}
+
+export interface LineFit {
+  slope: number;
+  intercept: number;
+  /** Coefficient of determination, 1 for a perfect (or two-point) fit */
+  r2: number;
+}
+
+/**
+ * Swing highs and lows: candles whose high (low) is the extreme of the
+ * `window` candles on either side. Unless `alternate` is false, consecutive
+ * pivots of the same type are merged, keeping the more extreme one, so the
+ * result alternates high/low.
+ */
+export function findPivots(candles: PriceCandle[], window: number = 3, alternate: boolean = true): Pivot[] {
+  const pivots: Pivot[] = [];
+
+  for (let i = window; i < candles.length - window; i++) {
+    const range = candles.slice(i - window, i + window + 1);
+    // The first candle of a plateau takes the pivot, so flat tops count once
+    const isHigh = range.every((candle, j) => j < window ? candle.high < candles[i].high : candle.high <= candles[i].high);
+    const isLow = range.every((candle, j) => j < window ? candle.low > candles[i].low : candle.low >= candles[i].low);
+
+    if (isHigh) addPivot(pivots, { index: i, price: candles[i].high, type: 'high' }, alternate);
+    if (isLow) addPivot(pivots, { index: i, price: candles[i].low, type: 'low' }, alternate);
+  }
+
+  return pivots;
+}
+
+function addPivot(pivots: Pivot[], pivot: Pivot, alternate: boolean): void {
+  const last = pivots[pivots.length - 1];
+  if (!alternate || !last || last.type !== pivot.type) {
+    pivots.push(pivot);
+    return;
+  }
+  const moreExtreme = pivot.type === 'high' ? pivot.price > last.price : pivot.price < last.price;
+  if (moreExtreme) pivots[pivots.length - 1] = pivot;
+}
+
+/**
+ * Least-squares line through the points.
+ */
+export function fitLine(points: Array<{ x: number; y: number }>): LineFit {
+  const n = points.length;
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / n;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const { x, y } of points) {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  }
+
+  const slope = varianceX === 0 ? 0 : covariance / varianceX;
+  const intercept = meanY - slope * meanX;
+  const r2 = varianceY === 0 || varianceX === 0 ? 1 : (covariance * covariance) / (varianceX * varianceY);
+
+  return { slope, intercept, r2 };
+}
+
+export function lineAt(line: LineFit, x: number): number {
+  return line.slope * x + line.intercept;
+}
+
+/**
+ * Fits y = a·t² + b·t + c over t in [-1, 1] and returns the curvature `a`
+ * with the fit's r². A clear U shape has a > 0 and a high r².
+ */
+export function fitParabola(values: number[]): { a: number; r2: number } {
+  const n = values.length;
+  if (n < 3) return { a: 0, r2: 0 };
+
+  const ts = values.map((_, i) => (2 * i) / (n - 1) - 1);
+  // Normal equations for [c, b, a]
+  const s = [0, 0, 0, 0, 0];
+  const sy = [0, 0, 0];
+  ts.forEach((t, i) => {
+    for (let p = 0; p <= 4; p++) s[p] += t ** p;
+    for (let p = 0; p <= 2; p++) sy[p] += values[i] * t ** p;
+  });
+
+  const [c, b, a] = solve3(
+    [[s[0], s[1], s[2]], [s[1], s[2], s[3]], [s[2], s[3], s[4]]],
+    sy
+  );
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const total = values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  const residual = values.reduce((sum, value, i) => sum + (value - (a * ts[i] ** 2 + b * ts[i] + c)) ** 2, 0);
+
+  return { a, r2: total === 0 ? 0 : 1 - residual / total };
+}
+
+// Gaussian elimination for a 3x3 system
+function solve3(matrix: number[][], vector: number[]): number[] {
+  const m = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (m[col][col] === 0) return [0, 0, 0];
+
+    for (let row = 0; row < 3; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k < 4; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[3] / m[i][i]);
+}
+
+export function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
@@ -0,0 +1,12 @@
+// src/patterns/index.ts
+// Geometric chart pattern recognition over price candles.
+export { detectChartPatterns } from './chart';
+export type { ChartPatternOptions } from './chart';
+export { detectCandlestickPatterns } from './candlestick';
+export type { CandlestickPatternOptions } from './candlestick';
+export { detectDivergences } from './divergence';
+export type { DivergenceOptions } from './divergence';
+export { findZones, volumeProfile, fibonacciLevels } from './levels';
+export type { VolumeProfileBin, ZoneOptions } from './levels';
+export { findPivots, fitLine, fitParabola, lineAt } from './geometry';
+export type { LineFit, Pivot } from './geometry';
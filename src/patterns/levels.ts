@@ -0,0 +1,168 @@
+// src/patterns/levels.ts
+import { FibonacciLevels, PriceCandle, PriceZone } from '../types/technical';
+import { FIBONACCI_EXTENSIONS, FIBONACCI_RETRACEMENTS } from '../constants/technical';
+import { atr, latest } from '../indicators';
+import { clamp01, findPivots } from './geometry';
+
+export interface ZoneOptions {
+  /** Candles on each side a swing must dominate, defaults to 2 (a 5-bar pivot) */
+  pivotWindow?: number;
+  /** Swings within this many ATRs of a zone's average join it, defaults to 0.5 */
+  atrMultiplier?: number;
+  /** Number of price bins in the volume profile, defaults to 24 */
+  profileBins?: number;
+  /** Most zones returned, strongest first. Defaults to 6 */
+  maxZones?: number;
+}
+
+export interface VolumeProfileBin {
+  low: number;
+  high: number;
+  volume: number;
+}
+
+// Bins with this multiple of the average bin volume are high-volume nodes
+const HIGH_VOLUME_NODE_RATIO = 1.5;
+
+/**
+ * Support and resistance zones: swing highs and lows clustered within an
+ * ATR-based tolerance. Each zone is scored on how often price turned there,
+ * how recently, and how much volume traded inside its band, and is labelled
+ * support or resistance by where it sits relative to the last close.
+ */
+export function findZones(candles: PriceCandle[], options: ZoneOptions = {}): PriceZone[] {
+  const { pivotWindow = 2, atrMultiplier = 0.5, profileBins = 24, maxZones = 6 } = options;
+  if (candles.length === 0) return [];
+
+  const lastClose = candles[candles.length - 1].close;
+  const tolerance = (latest(atr(candles)) ?? lastClose * 0.01) * atrMultiplier;
+  const pivots = findPivots(candles, pivotWindow, false).sort((a, b) => a.price - b.price);
+
+  // Greedy clustering over the sorted swing prices
+  const clusters: typeof pivots[] = [];
+  for (const pivot of pivots) {
+    const cluster = clusters[clusters.length - 1];
+    const mean = cluster && cluster.reduce((sum, member) => sum + member.price, 0) / cluster.length;
+    if (cluster && pivot.price - mean <= tolerance) {
+      cluster.push(pivot);
+    } else {
+      clusters.push([pivot]);
+    }
+  }
+  if (clusters.length === 0) return [];
+
+  const profile = volumeProfile(candles, profileBins);
+  const averageBinVolume = profile.reduce((sum, bin) => sum + bin.volume, 0) / (profile.length || 1);
+
+  const zones = clusters.map(cluster => {
+    const prices = cluster.map(member => member.price);
+    const price = prices.reduce((sum, value) => sum + value, 0) / prices.length;
+    // Bands are at least one tolerance wide so single swings still form a zone
+    const low = Math.min(Math.min(...prices), price - tolerance / 2);
+    const high = Math.max(Math.max(...prices), price + tolerance / 2);
+    const lastIndex = Math.max(...cluster.map(member => member.index));
+    const bins = profile.filter(bin => bin.high > low && bin.low < high);
+
+    return {
+      low,
+      high,
+      price,
+      type: price < lastClose ? 'support' as const : 'resistance' as const,
+      touches: cluster.length,
+      lastTouchTimestamp: candles[lastIndex].timestamp,
+      recency: lastIndex / Math.max(candles.length - 1, 1),
+      volume: bins.reduce((sum, bin) => sum + overlapShare(bin, low, high) * bin.volume, 0),
+      highVolumeNode: averageBinVolume > 0 && bins.some(bin => bin.volume >= averageBinVolume * HIGH_VOLUME_NODE_RATIO)
+    };
+  });
+
+  const maxTouches = Math.max(...zones.map(zone => zone.touches));
+  const maxVolume = Math.max(...zones.map(zone => zone.volume));
+
+  return zones
+    .map(({ recency, ...zone }) => {
+      const touchScore = zone.touches / maxTouches;
+      // Without volume data the score rests on touches and recency alone
+      const strength = maxVolume > 0
+        ? 0.45 * touchScore + 0.25 * recency + 0.3 * (zone.volume / maxVolume)
+        : (0.45 * touchScore + 0.25 * recency) / 0.7;
+      return { ...zone, strength: Math.round(clamp01(strength) * 1000) / 1000 };
+    })
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, maxZones);
+}
+
+/**
+ * Volume traded per price bin between the lowest low and highest high. Each
+ * candle's volume is spread evenly over its high-low range.
+ */
+export function volumeProfile(candles: PriceCandle[], bins: number = 24): VolumeProfileBin[] {
+  if (candles.length === 0) return [];
+  const min = Math.min(...candles.map(candle => candle.low));
+  const max = Math.max(...candles.map(candle => candle.high));
+  if (max <= min) return [{ low: min, high: max, volume: candles.reduce((sum, candle) => sum + candle.volume, 0) }];
+
+  const size = (max - min) / bins;
+  const profile = Array.from({ length: bins }, (_, i) => ({ low: min + i * size, high: min + (i + 1) * size, volume: 0 }));
+
+  for (const candle of candles) {
+    if (candle.high === candle.low) {
+      profile[Math.min(Math.floor((candle.close - min) / size), bins - 1)].volume += candle.volume;
+      continue;
+    }
+    for (const bin of profile) {
+      bin.volume += candle.volume * overlapShare({ low: candle.low, high: candle.high }, bin.low, bin.high);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Retracement and extension levels of the dominant swing: the move between
+ * the lowest low and the highest high. An up swing retraces down from the
+ * high and extends above it; a down swing the reverse. Extensions of a deep
+ * down swing that would fall to zero or below are left out.
+ */
+export function fibonacciLevels(candles: PriceCandle[]): FibonacciLevels | null {
+  if (candles.length < 2) return null;
+
+  let lowIndex = 0;
+  let highIndex = 0;
+  candles.forEach((candle, i) => {
+    if (candle.low < candles[lowIndex].low) lowIndex = i;
+    if (candle.high > candles[highIndex].high) highIndex = i;
+  });
+
+  const swingLow = candles[lowIndex].low;
+  const swingHigh = candles[highIndex].high;
+  const range = swingHigh - swingLow;
+  if (range <= 0) return null;
+
+  const direction = lowIndex <= highIndex ? 'up' as const : 'down' as const;
+  const retracement = (ratio: number) => ({
+    ratio,
+    price: direction === 'up' ? swingHigh - ratio * range : swingLow + ratio * range
+  });
+  const extension = (ratio: number) => ({
+    ratio,
+    price: direction === 'up' ? swingLow + ratio * range : swingHigh - ratio * range
+  });
+
+  return {
+    direction,
+    swingHigh,
+    swingLow,
+    startTimestamp: candles[Math.min(lowIndex, highIndex)].timestamp,
+    endTimestamp: candles[Math.max(lowIndex, highIndex)].timestamp,
+    retracements: FIBONACCI_RETRACEMENTS.map(retracement),
+    extensions: FIBONACCI_EXTENSIONS.map(extension).filter(level => level.price > 0)
+  };
+}
+
+// Fraction of `range` that lies between low and high
+function overlapShare(range: { low: number; high: number }, low: number, high: number): number {
+  const width = range.high - range.low;
+  if (width <= 0) return range.low >= low && range.low < high ? 1 : 0;
+  return Math.max(Math.min(range.high, high) - Math.max(range.low, low), 0) / width;
+}
@@ -0,0 +1,139 @@
+// src/services/birdeye.ts
+import { z } from 'zod';
+import {
+  BirdeyeOhlcvData,
+  BirdeyeOhlcvDataSchema,
+  BirdeyePriceHistoryData,
+  BirdeyePriceHistoryDataSchema,
+  BirdeyeSearchData,
+  BirdeyeSearchDataSchema,
+  BirdeyeTokenMarketData,
+  BirdeyeTokenMarketDataSchema,
+  BirdeyeTokenMetadata,
+  BirdeyeTokenMetadataSchema,
+  BirdeyeTrendingData,
+  BirdeyeTrendingDataSchema,
+  birdeyeEnvelope
+} from '../types/birdeye';
+import { ServiceOptions } from '../types/service';
+import { Throttle } from '../utils/throttle';
+import { ResolvedServiceOptions, resolveServiceOptions } from '../utils/http';
+import { SchemaMismatchError, TokenAnalyzerError, providerErrorFromResponse } from '../utils/errors';
+
+type QueryParams = Record<string, string | number>;
+
+/**
+ * Typed access to the Birdeye public API. Every response is validated against
+ * its zod schema, so a renamed or missing field fails loudly instead of
+ * turning into zeros further down the pipeline.
+ */
+export class BirdeyeClient {
+  private readonly http: ResolvedServiceOptions;
+
+  constructor(
+    private readonly apiKey: string,
+    options: ServiceOptions = {},
+    private readonly throttle: Throttle = new Throttle(3, 1000)
+  ) {
+    this.http = resolveServiceOptions(options);
+  }
+
+  searchTokens(keyword: string, limit: number = 20): Promise<BirdeyeSearchData> {
+    return this.request('/defi/v3/search', BirdeyeSearchDataSchema, {
+      chain: 'solana',
+      keyword,
+      target: 'token',
+      sort_by: 'liquidity',
+      sort_type: 'desc',
+      offset: 0,
+      limit
+    });
+  }
+
+  getTokenMetadata(address: string): Promise<BirdeyeTokenMetadata> {
+    return this.request('/defi/v3/token/meta-data/single', BirdeyeTokenMetadataSchema, { address });
+  }
+
+  getTokenMarketData(address: string): Promise<BirdeyeTokenMarketData> {
+    return this.request('/defi/v3/token/market-data', BirdeyeTokenMarketDataSchema, { address });
+  }
+
+  getTrendingTokens(limit: number = 20): Promise<BirdeyeTrendingData> {
+    return this.request('/defi/token_trending', BirdeyeTrendingDataSchema, {
+      sort_by: 'rank',
+      sort_type: 'asc',
+      offset: 0,
+      limit
+    });
+  }
+
+  getPriceHistory(
+    address: string,
+    type: string,
+    timeFrom: number,
+    timeTo: number
+  ): Promise<BirdeyePriceHistoryData> {
+    return this.request('/defi/history_price', BirdeyePriceHistoryDataSchema, {
+      address,
+      address_type: 'token',
+      type,
+      time_from: timeFrom,
+      time_to: timeTo
+    });
+  }
+
+  getOhlcv(
+    address: string,
+    type: string,
+    timeFrom: number,
+    timeTo: number
+  ): Promise<BirdeyeOhlcvData> {
+    return this.request('/defi/ohlcv', BirdeyeOhlcvDataSchema, {
+      address,
+      type,
+      time_from: timeFrom,
+      time_to: timeTo
+    });
+  }
+
+  private async request<T extends z.ZodTypeAny>(
+    path: string,
+    schema: T,
+    params: QueryParams
+  ): Promise<z.infer<T>> {
+    const query = Object.entries(params)
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('&');
+
+    const response = await this.throttle.add(() =>
+      this.http.transport(`${this.http.baseUrls.birdeye}${path}?${query}`, {
+        method: 'GET',
+        headers: {
+          'accept': 'application/json',
+          'x-chain': 'solana',
+          'X-API-KEY': this.apiKey
+        }
+      })
+    );
+
+    if (!response.ok) {
+      throw providerErrorFromResponse('birdeye', response, path);
+    }
+
+    const body = await response.json();
+    if (body?.success === false) {
+      throw new TokenAnalyzerError(
+        `Birdeye ${path} request was not successful: ${body.message || 'no message'}`,
+        'PROVIDER_ERROR',
+        'birdeye'
+      );
+    }
+
+    const parsed = birdeyeEnvelope(schema).safeParse(body);
+    if (!parsed.success) {
+      throw new SchemaMismatchError('Birdeye', path, parsed.error.issues);
+    }
+
+    return parsed.data.data;
+  }
+}
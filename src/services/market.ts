@@ -1,6 +1,10 @@
 // src/services/market.ts
 import { MarketData } from '../types/token';
-import { Throttle } from '../utils/throttle';
+import { ServiceOptions } from '../types/service';
+import { Logger } from '../types/logger';
+import { ResolvedServiceOptions, resolveServiceOptions } from '../utils/http';
+import { SectionCache } from '../cache/section';
+import { BirdeyeClient } from './birdeye';
 
 interface TrendingTokenResponse {
   address: string;
@@ -10,127 +14,59 @@ interface TrendingTokenResponse {
 }
 
 export class MarketService {
-  private readonly birdseyeThrottle: Throttle;
-  private readonly cache: Map<string, { data: any; timestamp: number }>;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly birdeye: BirdeyeClient;
+  private readonly cache: SectionCache<MarketData>;
+  private readonly http: ResolvedServiceOptions;
+  private readonly logger: Logger;
 
-  constructor(private readonly birdseyeApiKey: string) {
-    this.birdseyeThrottle = new Throttle(3, 1000);
-    this.cache = new Map();
+  constructor(birdseyeApiKey: string, options: ServiceOptions = {}) {
+    this.birdeye = new BirdeyeClient(birdseyeApiKey, options);
+    this.http = resolveServiceOptions(options);
+    this.logger = this.http.logger;
+    this.cache = new SectionCache('market', options.cache, undefined, this.logger, this.http.clock);
   }
 
   async getMarketData(address: string): Promise<MarketData> {
-    const cacheKey = `market_${address}`;
-    const cached = this.cache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      return cached.data;
-    }
-
     try {
-      const marketData = await this.fetchBirdseyeMarketData(address);
-      if (!marketData) {
-        throw new Error('No market data available');
-      }
+      return await this.cache.getOrLoad(`market_${address}`, async () => {
+        this.logger.info('Fetching Birdeye market data', { address });
+        const marketData = await this.birdeye.getTokenMarketData(address);
 
-      const result: MarketData = {
-        price: marketData.price || null,
-        priceChange24h: marketData.price_change_24h || null,
-        volume24h: marketData.volume_24h?.toString() || '0',
-        mcap: marketData.marketcap || null,
-        fdv: marketData.supply ? marketData.supply * (marketData.price || 0) : null,
-        liquidity: marketData.liquidity || 0,
-        holders: marketData.holders || 0,
-        verified: marketData.verified || false,
-        createdAt: new Date().toISOString()
-      };
-
-      this.cache.set(cacheKey, {
-        data: result,
-        timestamp: Date.now()
+        return {
+          price: marketData.price,
+          priceChange24h: marketData.price_change_24h ?? null,
+          volume24h: marketData.volume_24h?.toString() || '0',
+          mcap: marketData.marketcap ?? null,
+          fdv: marketData.supply ? marketData.supply * marketData.price : null,
+          liquidity: marketData.liquidity,
+          holders: marketData.holders || 0,
+          verified: marketData.verified || false,
+          createdAt: new Date(this.http.clock()).toISOString()
+        };
       });
-
-      return result;
     } catch (error) {
-      console.error('Error fetching market data:', error);
-      return {
-        price: null,
-        priceChange24h: null,
-        volume24h: '0',
-        mcap: null,
-        fdv: null,
-        liquidity: 0,
-        holders: 0,
-        verified: false,
-        createdAt: new Date().toISOString()
-      };
+      this.logger.error('Error fetching market data', { address, error });
+      throw error;
     }
   }
 
   async getTrendingTokens(limit: number = 100): Promise<TrendingTokenResponse[]> {
     try {
-      console.log('Fetching trending tokens, limit:', limit);
-      const response = await this.birdseyeThrottle.add(() => 
-        fetch(
-          `https://public-api.birdeye.so/defi/token_trending?sort_by=rank&sort_type=asc&offset=0&limit=${limit}`,
-          {
-            method: 'GET',
-            headers: {
-              'accept': 'application/json',
-              'x-chain': 'solana',
-              'X-API-KEY': this.birdseyeApiKey
-            }
-          }
-        )
-      );
-
-      if (!response.ok) {
-        console.warn('Birdeye trending API error:', response.status);
-        return [];
-      }
-
-      const data = await response.json();
-      return (data.data || []).map((token: any) => ({
+      this.logger.info('Fetching trending tokens', { limit });
+      const trending = await this.birdeye.getTrendingTokens(limit);
+      return trending.tokens.map(token => ({
         address: token.address,
         symbol: token.symbol,
         name: token.name,
         decimals: token.decimals
       }));
     } catch (error) {
-      console.error('Error fetching trending tokens:', error);
-      return [];
-    }
-  }
-
-  private async fetchBirdseyeMarketData(address: string): Promise<any> {
-    try {
-      console.log('Fetching Birdeye market data for address:', address);
-      const response = await this.birdseyeThrottle.add(() =>
-        fetch(
-          `https://public-api.birdeye.so/defi/v3/token/market-data?address=${address}`,
-          {
-            method: 'GET',
-            headers: {
-              'accept': 'application/json',
-              'x-chain': 'solana',
-              'X-API-KEY': this.birdseyeApiKey
-            }
-          }
-        )
-      );
-
-      if (!response.ok) {
-        throw new Error(`Birdeye API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data.data;
-    } catch (error) {
-      console.error('Error fetching Birdeye data:', error);
-      return null;
+      this.logger.error('Error fetching trending tokens', { limit, error });
+      throw error;
     }
   }
 
-  clearCache(): void {
-    this.cache.clear();
+  clearCache(): Promise<void> {
+    return this.cache.clear();
   }
 }
\ No newline at end of file
@@ -3,8 +3,22 @@ import { Throttle } from '../utils/throttle';
 import { AINewsAnalysis, AINewsAnalysisSchema, NewsItem, NewsAnalysis, NewsAnalysisSchema, NewsItemSchema } from '../types/news';
 import { RSS_FEEDS } from '../constants/news';
 import { XMLParser } from 'fast-xml-parser';
-
-interface NewsConfig {
+import { ServiceOptions } from '../types/service';
+import { Logger } from '../types/logger';
+import { ResolvedServiceOptions, createOpenAIClient, resolveServiceOptions } from '../utils/http';
+import { SectionCache } from '../cache/section';
+import { providerErrorFromResponse } from '../utils/errors';
+
+// Used when no article mentions the token, without calling OpenAI
+const NO_NEWS_ANALYSIS: AINewsAnalysis = {
+  marketSentiment: 'neutral',
+  keyTrends: [],
+  impactAnalysis: [],
+  riskLevel: 'unknown'
+};
+
+export interface NewsConfig {
+  feeds?: string[];
   maxArticles?: number;
   minRelevanceScore?: number;
   relevantSources?: string[];
@@ -15,22 +29,25 @@ interface NewsConfig {
 export class NewsService {
   private readonly openai: OpenAI;
   private readonly gptThrottle: Throttle;
-  private readonly cache: Map<string, { data: AINewsAnalysis; timestamp: number }>;
+  private readonly cache: SectionCache<NewsAnalysis>;
   private readonly xmlParser: XMLParser;
-  private readonly CACHE_TTL: number;
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 1000;
+  private readonly http: ResolvedServiceOptions;
+  private readonly logger: Logger;
 
   constructor(
     openaiApiKey: string,
-    private readonly config: NewsConfig = {}
+    private readonly config: NewsConfig = {},
+    options: ServiceOptions = {}
   ) {
     if (!openaiApiKey) throw new Error('OPENAI_API_KEY is required');
     
-    this.openai = new OpenAI({ apiKey: openaiApiKey });
-    this.cache = new Map();
+    this.http = resolveServiceOptions(options);
+    this.logger = this.http.logger;
+    this.openai = createOpenAIClient(openaiApiKey, this.http);
+    this.cache = new SectionCache('news', options.cache, config.cacheTTL, this.logger, this.http.clock);
     this.gptThrottle = new Throttle(3, 1000);
-    this.CACHE_TTL = config.cacheTTL || 5 * 60 * 1000; // 5 minutes default
     
     this.xmlParser = new XMLParser({
       ignoreAttributes: false,
@@ -47,44 +64,56 @@ export class NewsService {
     });
   }
 
-  async getNewsAnalysis(symbol: string | null = null, tokenName: string | null = null): Promise<AINewsAnalysis> {
+  /**
+   * AI analysis of recent articles mentioning the token, together with the
+   * matched articles it was based on.
+   */
+  async getNewsAnalysis(symbol: string | null = null, tokenName: string | null = null): Promise<NewsAnalysis> {
     try {
-      const cacheKey = this.generateCacheKey(symbol, tokenName);
-      const cachedResult = this.getFromCache(cacheKey);
-      if (cachedResult) return cachedResult;
-
-      const articles = await this.fetchNewsArticles(symbol || '', tokenName);
-      if (!articles.length) {
-        throw new Error('No articles found matching the search criteria');
-      }
+      return await this.cache.getOrLoad(
+        this.generateCacheKey(symbol, tokenName),
+        () => this.buildNewsAnalysis(symbol, tokenName)
+      );
+    } catch (error) {
+      this.logger.error('Error in getNewsAnalysis', { symbol, tokenName, error });
+      throw this.handleError(error);
+    }
+  }
 
-      // Filter articles based on relevance score
-      const relevantArticles = articles.slice(0, this.config.maxArticles || 50);
-      const gptAnalysis = await this.getDetailedGPTAnalysis(symbol || 'all', tokenName, relevantArticles);
+  private async buildNewsAnalysis(symbol: string | null, tokenName: string | null): Promise<NewsAnalysis> {
+    const articles = await this.fetchNewsArticles(symbol || '', tokenName);
+    if (!articles.length) {
+      // No coverage is a valid result, not a provider failure
+      this.logger.info('No articles matched', { symbol, tokenName });
+      return { articles: [], aiAnalysis: NO_NEWS_ANALYSIS, lastUpdated: new Date(this.http.clock()) };
+    }
 
-      const newsAnalysis: NewsAnalysis = {
-        articles: relevantArticles,
-        aiAnalysis: gptAnalysis,
-        lastUpdated: new Date()
-      };
+    // Filter articles based on relevance score
+    const relevantArticles = articles.slice(0, this.config.maxArticles || 50);
+    const gptAnalysis = await this.getDetailedGPTAnalysis(symbol || 'all', tokenName, relevantArticles);
 
-      const validated = NewsAnalysisSchema.parse(newsAnalysis);
-      this.setCache(cacheKey, validated.aiAnalysis);
+    const newsAnalysis: NewsAnalysis = {
+      articles: relevantArticles,
+      aiAnalysis: gptAnalysis,
+      lastUpdated: new Date(this.http.clock())
+    };
 
-      return validated.aiAnalysis;
-    } catch (error) {
-      console.error('Error in getNewsAnalysis:', error);
-      throw this.handleError(error);
-    }
+    return NewsAnalysisSchema.parse(newsAnalysis);
   }
 
   private async fetchNewsArticles(symbol: string, name: string | null): Promise<NewsItem[]> {
     const searchTerms = this.generateSearchTerms(symbol, name);
-    const fetchPromises = RSS_FEEDS
+    const fetchPromises = (this.config.feeds || RSS_FEEDS)
       .filter(feed => this.isAllowedSource(feed))
       .map(feed => this.fetchFeedWithRetry(feed, searchTerms));
 
     const results = await Promise.allSettled(fetchPromises);
+
+    // Only surface feed errors when every feed failed; otherwise use what we got
+    const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length > 0 && failures.length === results.length) {
+      throw failures[0].reason;
+    }
     const articles = results
       .filter((result): result is PromiseFulfilledResult<NewsItem[]> => result.status === 'fulfilled')
       .flatMap(result => result.value);
@@ -106,7 +135,7 @@ export class NewsService {
   }
 
   private async fetchAndParseRSSFeed(url: string, searchTerms: string[]): Promise<NewsItem[]> {
-    const response = await fetch(url, {
+    const response = await this.http.transport(url, {
       headers: {
         'User-Agent': this.getRandomUserAgent(),
         'Accept': 'application/rss+xml, application/xml'
@@ -114,7 +143,7 @@ export class NewsService {
     });
 
     if (!response.ok) {
-      throw new Error(`HTTP error: ${response.status} for ${url}`);
+      throw providerErrorFromResponse('rss', response, url);
     }
 
     const xml = await response.text();
@@ -178,21 +207,6 @@ export class NewsService {
     return `${symbol || 'all'}_${tokenName || 'all'}`;
   }
 
-  private getFromCache(key: string): AINewsAnalysis | null {
-    const cached = this.cache.get(key);
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      return cached.data;
-    }
-    return null;
-  }
-
-  private setCache(key: string, data: AINewsAnalysis): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now()
-    });
-  }
-
   private generateSearchTerms(symbol: string, name: string | null): string[] {
     const terms = [symbol.toLowerCase()];
     if (name) terms.push(name.toLowerCase());
@@ -251,7 +265,7 @@ export class NewsService {
 
   private parseDate(dateStr: string): Date {
     const parsed = new Date(dateStr);
-    return isNaN(parsed.getTime()) ? new Date() : parsed;
+    return isNaN(parsed.getTime()) ? new Date(this.http.clock()) : parsed;
   }
 
   private getRandomUserAgent(): string {
@@ -316,7 +330,7 @@ Focus on recent developments, market movements, and technical indicators.`;
     return text.replace(/&[^;]+;/g, match => entities[match] || match);
   }
 
-  clearCache(): void {
-    this.cache.clear();
+  clearCache(): Promise<void> {
+    return this.cache.clear();
   }
 }
\ No newline at end of file
@@ -1,108 +1,88 @@
 // src/services/onchain.ts
 import { PublicKey } from "@solana/web3.js";
 import { TokenData } from "../types/token";
+import { ServiceOptions } from "../types/service";
+import { MintAccount } from "../types/solana";
+import { Logger } from "../types/logger";
 import { Throttle } from "../utils/throttle";
+import { resolveServiceOptions } from "../utils/http";
+import { toRawAmount } from "../utils/amount";
+import { BirdeyeClient } from "./birdeye";
+import { SolanaRpcClient } from "./solana";
 
 export class OnChainService {
-  private readonly birdseyeThrottle: Throttle;
+  private readonly birdeye: BirdeyeClient;
+  private readonly rpc: SolanaRpcClient | null;
+  private readonly logger: Logger;
 
-  constructor(private readonly birdseyeApiKey: string) {
-    this.birdseyeThrottle = new Throttle(5, 1000);
+  constructor(birdseyeApiKey: string, options: ServiceOptions = {}) {
+    this.birdeye = new BirdeyeClient(birdseyeApiKey, options, new Throttle(5, 1000));
+    this.rpc = options.solanaRpcUrl ? new SolanaRpcClient(options.solanaRpcUrl, options) : null;
+    this.logger = resolveServiceOptions(options).logger;
   }
 
+  /** Whether mint data is read over Solana RPC rather than taken from Birdeye */
+  get usesRpc(): boolean {
+    return this.rpc !== null;
+  }
+
+  /**
+   * Token data with decimals, exact raw supply and authorities read from the
+   * mint account when an RPC endpoint is configured, and from Birdeye
+   * otherwise or when the RPC request fails (`source` says which). Name,
+   * symbol, holders and volume always come from Birdeye.
+   */
   async getTokenData(address: string): Promise<TokenData> {
     try {
-      console.log('Fetching token data for:', address);
-      
-      // Get both metadata and market data in parallel
-      const [metadata, marketData] = await Promise.all([
-        this.fetchMetadata(address),
-        this.fetchMarketData(address)
-      ]);
+      this.logger.info('Fetching token data', { address, source: this.rpc ? 'rpc' : 'birdeye' });
 
-      console.log('Received metadata:', metadata);
-      console.log('Received market data:', marketData);
-
-      if (!metadata.success || !metadata.data) {
-        throw new Error("Failed to fetch token metadata");
-      }
+      // Get metadata, market data and the mint account in parallel
+      const [meta, market, mint] = await Promise.all([
+        this.birdeye.getTokenMetadata(address),
+        this.birdeye.getTokenMarketData(address),
+        this.getMint(address)
+      ]);
 
-      const meta = metadata.data;
-      const market = marketData?.data;
+      this.logger.debug('Received token metadata', { address, symbol: meta.symbol, decimals: meta.decimals });
+      this.logger.debug('Received token market data', { address, holders: market.holders, supply: market.supply });
 
-      // Convert floating point numbers to integers using decimals
-      const decimals = meta.decimals || 0;
-      const multiplier = Math.pow(10, decimals);
-      
-      // Convert supply to integer before BigInt conversion
-      const totalSupply = market?.supply 
-        ? BigInt(Math.floor(market.supply * multiplier))
-        : BigInt(0);
+      const decimals = mint ? mint.decimals : meta.decimals;
 
-      // Convert volume to integer before BigInt conversion
-      const volume24h = market?.volume_24h
-        ? BigInt(Math.floor(market.volume_24h * multiplier))
-        : BigInt(0);
+      // Birdeye reports UI amounts, converted to base units without float multiplication
+      const totalSupply = mint ? mint.supply : toRawAmount(market.supply ?? 0, decimals);
+      const volume24h = toRawAmount(market.volume_24h ?? 0, decimals);
 
       return {
         mint: new PublicKey(address),
-        symbol: meta.symbol || "",
-        name: meta.name || "",
+        symbol: meta.symbol,
+        name: meta.name,
         decimals: decimals,
         totalSupply: totalSupply,
-        holderCount: market?.holders || 0,
+        holderCount: market.holders || 0,
         volume24h: volume24h,
         chainId: 1, // Solana mainnet
-        mintAuthority: meta.mint_authority || null,
-        freezeAuthority: meta.freeze_authority || null,
+        mintAuthority: mint ? mint.mintAuthority : meta.mint_authority || null,
+        freezeAuthority: mint ? mint.freezeAuthority : meta.freeze_authority || null,
         verified: meta.verified || false,
-        extensions: meta.extensions || {}
+        extensions: meta.extensions || {},
+        source: mint ? 'rpc' : 'birdeye'
       };
     } catch (error) {
-      console.error('Error in getTokenData:', error);
+      this.logger.error('Error in getTokenData', { address, error });
       throw error;
     }
   }
 
-  private async fetchMetadata(address: string): Promise<any> {
-    return this.birdseyeThrottle.add(async () => {
-      const response = await fetch(
-        `https://public-api.birdeye.so/defi/v3/token/meta-data/single?address=${address}`,
-        {
-          method: 'GET',
-          headers: {
-            'accept': 'application/json',
-            'x-chain': 'solana',
-            'X-API-KEY': this.birdseyeApiKey
-          }
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error('Birdeye metadata API error');
-      }
-      return response.json();
-    });
-  }
-
-  private async fetchMarketData(address: string): Promise<any> {
-    return this.birdseyeThrottle.add(async () => {
-      const response = await fetch(
-        `https://public-api.birdeye.so/defi/v3/token/market-data?address=${address}`,
-        {
-          method: 'GET',
-          headers: {
-            'accept': 'application/json',
-            'x-chain': 'solana',
-            'X-API-KEY': this.birdseyeApiKey
-          }
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error('Birdeye market data API error');
-      }
-      return response.json();
-    });
+  // Null when RPC is not configured or failed, so the Birdeye fields are used instead
+  private async getMint(address: string): Promise<MintAccount | null> {
+    if (!this.rpc) return null;
+    try {
+      const mint = await this.rpc.getMint(address);
+      this.logger.debug('Received mint account', { address, programId: mint.programId, slot: mint.slot });
+      return mint;
+    } catch (error) {
+      this.logger.warn('Mint account unavailable over RPC, falling back to Birdeye', { address, error });
+      return null;
+    }
   }
-}
\ No newline at end of file
+}
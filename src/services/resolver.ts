@@ -0,0 +1,160 @@
+// src/services/resolver.ts
+import { ServiceOptions } from '../types/service';
+import { Logger } from '../types/logger';
+import { BirdeyeSearchToken } from '../types/birdeye';
+import { CandidateScoreBreakdown, ResolveOptions, TokenCandidate, TokenResolution } from '../types/resolution';
+import {
+  CANDIDATE_SCORE_WEIGHTS,
+  DEFAULT_MIN_SCORE_GAP,
+  MATURE_TOKEN_AGE_MS,
+  SOLANA_ADDRESS_PATTERN
+} from '../constants/resolution';
+import { ResolvedServiceOptions, resolveServiceOptions } from '../utils/http';
+import { AmbiguousTokenError, TokenNotFoundError } from '../utils/errors';
+import { BirdeyeClient } from './birdeye';
+
+export class TokenResolver {
+  private readonly birdeye: BirdeyeClient;
+  private readonly http: ResolvedServiceOptions;
+  private readonly logger: Logger;
+
+  constructor(birdseyeApiKey: string, options: ServiceOptions = {}) {
+    this.birdeye = new BirdeyeClient(birdseyeApiKey, options);
+    this.http = resolveServiceOptions(options);
+    this.logger = this.http.logger;
+  }
+
+  /**
+   * Resolves a symbol, name or mint address to a single mint. Search results
+   * are ranked by `rankCandidates`; mint addresses are returned as-is.
+   */
+  async resolve(query: string, options: ResolveOptions = {}): Promise<TokenResolution> {
+    if (SOLANA_ADDRESS_PATTERN.test(query)) {
+      return { query, address: query, symbol: null, name: null, candidates: [], ambiguous: false };
+    }
+
+    const candidates = await this.searchCandidates(query, options.limit || 20);
+    if (candidates.length === 0) {
+      throw new TokenNotFoundError(query);
+    }
+
+    const [best, runnerUp] = candidates;
+    const ambiguous = !!runnerUp && best.score - runnerUp.score < (options.minScoreGap ?? DEFAULT_MIN_SCORE_GAP);
+
+    if (ambiguous) {
+      if (options.strict) {
+        throw new AmbiguousTokenError(query, candidates);
+      }
+      this.logger.warn('Ambiguous token query, using the top candidate', {
+        query,
+        address: best.address,
+        score: best.score,
+        runnerUp: runnerUp.address,
+        runnerUpScore: runnerUp.score
+      });
+    }
+
+    return { query, address: best.address, symbol: best.symbol, name: best.name, candidates, ambiguous };
+  }
+
+  private async searchCandidates(query: string, limit: number): Promise<TokenCandidate[]> {
+    try {
+      this.logger.info('Searching for token', { query });
+
+      const data = await this.birdeye.searchTokens(query, limit);
+
+      const tokenItem = data.items.find(item => item.type === 'token');
+      if (!tokenItem?.result) {
+        this.logger.warn('No token results found', { query });
+        return [];
+      }
+
+      const candidates = rankCandidates(
+        query,
+        tokenItem.result.filter(token => (token.liquidity || 0) > 0),
+        this.http.clock()
+      );
+
+      this.logger.debug('Ranked token candidates', {
+        query,
+        count: candidates.length,
+        top: candidates.slice(0, 3).map(candidate => ({
+          symbol: candidate.symbol,
+          name: candidate.name,
+          address: candidate.address,
+          score: candidate.score,
+          breakdown: candidate.breakdown
+        }))
+      });
+
+      return candidates;
+    } catch (error) {
+      this.logger.error('Error searching tokens', { query, error });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Scores search results on symbol/name match, verification, liquidity,
+ * volume and age, and sorts them best first. Liquidity and volume are
+ * log-scaled against the largest value in the set, so scores are only
+ * comparable within one search.
+ */
+export function rankCandidates(query: string, tokens: BirdeyeSearchToken[], now: number): TokenCandidate[] {
+  const maxLiquidity = Math.max(0, ...tokens.map(token => token.liquidity || 0));
+  const maxVolume = Math.max(0, ...tokens.map(token => token.volume_24h_usd || 0));
+
+  return tokens
+    .map(token => {
+      const liquidity = token.liquidity || 0;
+      const volume24h = token.volume_24h_usd || 0;
+      const createdAt = parseDate(token.creation_time);
+
+      const breakdown: CandidateScoreBreakdown = {
+        match: matchScore(query, token.symbol, token.name),
+        verified: token.verified ? 1 : 0,
+        liquidity: logScale(liquidity, maxLiquidity),
+        volume: logScale(volume24h, maxVolume),
+        // Unknown age counts as neither new nor established
+        age: createdAt ? Math.min(Math.max(now - createdAt.getTime(), 0) / MATURE_TOKEN_AGE_MS, 1) : 0.5
+      };
+
+      const score = (Object.keys(breakdown) as Array<keyof CandidateScoreBreakdown>)
+        .reduce((sum, key) => sum + breakdown[key] * CANDIDATE_SCORE_WEIGHTS[key], 0);
+
+      return {
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        liquidity,
+        volume24h,
+        price: token.price || 0,
+        verified: token.verified || false,
+        createdAt,
+        score,
+        breakdown
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.liquidity - a.liquidity);
+}
+
+function matchScore(query: string, symbol: string, name: string): number {
+  const normalized = query.trim().toLowerCase().replace(/^\$/, '');
+  const lowerSymbol = symbol.toLowerCase();
+  const lowerName = name.toLowerCase();
+
+  if (lowerSymbol === normalized || lowerName === normalized) return 1;
+  if (lowerSymbol.startsWith(normalized) || lowerName.startsWith(normalized)) return 0.5;
+  return 0;
+}
+
+function logScale(value: number, max: number): number {
+  return max > 0 ? Math.log10(value + 1) / Math.log10(max + 1) : 0;
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
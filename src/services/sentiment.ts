@@ -1,17 +1,23 @@
 // src/services/sentiment.ts
 import { OpenAI } from "openai";
 import { SentimentAnalysis, Tweet } from "../types/token";
+import { ServiceOptions } from "../types/service";
+import { Logger } from "../types/logger";
 import { Throttle } from "../utils/throttle";
+import { createOpenAIClient, resolveServiceOptions } from "../utils/http";
+import { SectionCache } from "../cache/section";
 
 export class SentimentService {
   private readonly openai: OpenAI;
   private readonly openaiThrottle: Throttle;
-  private readonly cache: Map<string, { analysis: SentimentAnalysis; timestamp: number }>;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey });
-    this.cache = new Map();
+  private readonly cache: SectionCache<SentimentAnalysis>;
+  private readonly logger: Logger;
+
+  constructor(apiKey: string, options: ServiceOptions = {}) {
+    const resolved = resolveServiceOptions(options);
+    this.openai = createOpenAIClient(apiKey, resolved);
+    this.logger = resolved.logger;
+    this.cache = new SectionCache('sentiment', options.cache, undefined, this.logger, resolved.clock);
     this.openaiThrottle = new Throttle(3, 1000); // 3 requests per second
   }
 
@@ -26,32 +32,14 @@ export class SentimentService {
         };
       }
 
-      // Generate cache key from tweets
-      const cacheKey = this.generateCacheKey(tweets);
-      
-      // Check cache
-      const cached = this.cache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-        return cached.analysis;
-      }
-
-      const analysis = await this.performAnalysis(tweets);
-
-      // Update cache
-      this.cache.set(cacheKey, {
-        analysis,
-        timestamp: Date.now()
-      });
-
-      return analysis;
+      // Cache key is derived from the tweets being analyzed
+      return await this.cache.getOrLoad(
+        this.generateCacheKey(tweets),
+        () => this.performAnalysis(tweets)
+      );
     } catch (error) {
-      console.error('Error in analyzeSentiment:', error);
-      // Return neutral sentiment on error
-      return {
-        score: 0,
-        magnitude: 0,
-        aspects: []
-      };
+      this.logger.error('Error in analyzeSentiment', { tweetCount: tweets.length, error });
+      throw error;
     }
   }
 
@@ -105,12 +93,8 @@ export class SentimentService {
           })) || []
         };
       } catch (error) {
-        console.error('Error in performAnalysis:', error);
-        return {
-          score: 0,
-          magnitude: 0,
-          aspects: []
-        };
+        this.logger.error('Error in sentiment performAnalysis', { error });
+        throw error;
       }
     });
   }
@@ -147,4 +131,8 @@ Response must be a valid JSON object with this exact structure:
   ]
 }`;
   }
+
+  clearCache(): Promise<void> {
+    return this.cache.clear();
+  }
 }
\ No newline at end of file
@@ -3,27 +3,44 @@ import { Throttle } from '../utils/throttle';
 import OpenAI from 'openai';
 import { TwitterAPIResponse, TokenInfo } from '../types/token';
 import { defaultTwitterConfig } from '../constants/twitter';
+import { ServiceOptions } from '../types/service';
+import { Logger } from '../types/logger';
+import { ResolvedServiceOptions, createOpenAIClient, resolveServiceOptions } from '../utils/http';
+import { SectionCache } from '../cache/section';
+import { TokenAnalyzerError, providerErrorFromResponse } from '../utils/errors';
+
+const FALLBACK_REASONING = 'Error processing market analysis';
+
+/**
+ * True when the AI analysis is the neutral fallback used after the GPT call failed.
+ */
+export function isFallbackAnalysis(analysis: AIAnalysis): boolean {
+  return analysis.marketSentiment.reasoning === FALLBACK_REASONING;
+}
 
 export class SocialService {
-  private readonly TWITTER_API_URL = 'https://api.twitter.com/2/tweets/search/recent';
   private readonly twitterToken: string;
   private readonly openai: OpenAI;
   private readonly gptThrottle: Throttle;
-  private readonly cache: Map<string, { data: SocialMetrics; timestamp: number }>;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly cache: SectionCache<SocialMetrics>;
   private readonly defaultConfig: TwitterConfig = defaultTwitterConfig;
+  private readonly http: ResolvedServiceOptions;
+  private readonly logger: Logger;
 
   constructor(
     twitterApiKey: string, 
     openaiApiKey: string,
-    private readonly twitterConfig: TwitterConfig = {}
+    private readonly twitterConfig: TwitterConfig = {},
+    options: ServiceOptions = {}
   ) {
     if (!twitterApiKey) throw new Error('TWITTER_BEARER_KEY is required');
     if (!openaiApiKey) throw new Error('OPENAI_API_KEY is required');
     
     this.twitterToken = twitterApiKey;
-    this.openai = new OpenAI({ apiKey: openaiApiKey });
-    this.cache = new Map();
+    this.http = resolveServiceOptions(options);
+    this.logger = this.http.logger;
+    this.openai = createOpenAIClient(openaiApiKey, this.http);
+    this.cache = new SectionCache('social', options.cache, undefined, this.logger, this.http.clock);
     this.gptThrottle = new Throttle(3, 1000);
   }
 
@@ -37,61 +54,65 @@ export class SocialService {
         ...marketData,
         volume24h: marketData?.volume24h ? marketData.volume24h.toString() : undefined
       })}`;
-      
-      const cached = this.cache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-        return cached.data;
-      }
-
-      console.log(`Fetching real social data for ${symbol} (${tokenName || 'no name'})`);
-      const tokenInfo = await this.getTokenInfo(symbol, tokenName);
-      console.log(`Found ${tokenInfo.tweets.length} tweets`);
-
-      // Filter to only include tweets from the last 48 hours
-      const recentTweets = tokenInfo.tweets
-        .filter(tweet => {
-          const tweetAge = Date.now() - tweet.createdAt.getTime();
-          const isRecent = tweetAge < (48 * 60 * 60 * 1000);
-          if (!isRecent) {
-            console.log(`Filtered out tweet from ${tweet.createdAt.toISOString()} (too old)`);
-          }
-          return isRecent;
-        })
-        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
 
-      console.log(`Processing ${recentTweets.length} recent tweets`);
-
-      const gptAnalysis = await this.getDetailedGPTAnalysis(
-        symbol,
-        tokenName,
-        tokenInfo.about,
-        recentTweets,
-        marketData
+      // The neutral fallback after a failed GPT call is not cached, so the next call retries it
+      return await this.cache.getOrLoad(
+        cacheKey,
+        () => this.collectSocialMetrics(symbol, tokenName, marketData),
+        metrics => !isFallbackAnalysis(metrics.aiAnalysis)
       );
-
-      const metrics: SocialMetrics = {
-        mentionsCount: recentTweets.length,
-        trendingScore: this.calculateTrendingScore(recentTweets),
-        tweets: recentTweets,
-        lastUpdated: new Date(),
-        aiAnalysis: gptAnalysis,
-      };
-
-      console.log('Validating social metrics schema');
-      const validated = SocialMetricsSchema.parse(metrics);
-
-      this.cache.set(cacheKey, {
-        data: validated,
-        timestamp: Date.now(),
-      });
-
-      return validated;
     } catch (error) {
-      console.error('Error in getSocialMetrics:', error);
+      this.logger.error('Error in getSocialMetrics', { symbol, error });
+      if (error instanceof TokenAnalyzerError || error instanceof OpenAI.APIError) {
+        throw error;
+      }
       throw new Error(`Failed to fetch social metrics: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  private async collectSocialMetrics(
+    symbol: string,
+    tokenName: string | null,
+    marketData?: MarketDataInput
+  ): Promise<SocialMetrics> {
+    this.logger.info('Fetching social data', { symbol, tokenName });
+    const tokenInfo = await this.getTokenInfo(symbol, tokenName);
+    this.logger.debug('Fetched tweets', { symbol, count: tokenInfo.tweets.length });
+
+    // Filter to only include tweets from the last 48 hours
+    const recentTweets = tokenInfo.tweets
+      .filter(tweet => {
+        const tweetAge = this.http.clock() - tweet.createdAt.getTime();
+        const isRecent = tweetAge < (48 * 60 * 60 * 1000);
+        if (!isRecent) {
+          this.logger.debug('Filtered out old tweet', { tweetId: tweet.id, createdAt: tweet.createdAt });
+        }
+        return isRecent;
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    this.logger.debug('Processing recent tweets', { symbol, count: recentTweets.length });
+
+    const gptAnalysis = await this.getDetailedGPTAnalysis(
+      symbol,
+      tokenName,
+      tokenInfo.about,
+      recentTweets,
+      marketData
+    );
+
+    const metrics: SocialMetrics = {
+      mentionsCount: recentTweets.length,
+      trendingScore: this.calculateTrendingScore(recentTweets),
+      tweets: recentTweets,
+      lastUpdated: new Date(this.http.clock()),
+      aiAnalysis: gptAnalysis,
+    };
+
+    this.logger.debug('Validating social metrics schema', { symbol });
+    return SocialMetricsSchema.parse(metrics);
+  }
+
   private async getTokenInfo(symbol: string, name: string | null): Promise<TokenInfo> {
     try {
       // Get real tweets from Twitter
@@ -120,7 +141,7 @@ export class SocialService {
         tweets: this.parseTweets(tweets)
       };
     } catch (error) {
-      console.error('Error in getTokenInfo:', error);
+      this.logger.error('Error in getTokenInfo', { symbol, error });
       throw error;
     }
   }
@@ -151,9 +172,9 @@ export class SocialService {
         'sort_order': 'relevancy'
       });
 
-      console.log('Twitter search query:', query);
+      this.logger.debug('Twitter search query', { query });
 
-      const response = await fetch(`${this.TWITTER_API_URL}?${params}`, {
+      const response = await this.http.transport(`${this.http.baseUrls.twitter}/tweets/search/recent?${params}`, {
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${this.twitterToken}`,
@@ -163,18 +184,18 @@ export class SocialService {
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error('Twitter API Error Details:', {
+        this.logger.error('Twitter API error', {
           status: response.status,
           statusText: response.statusText,
-          error: errorText
+          body: errorText
         });
-        throw new Error(`Twitter API error: ${response.status} ${response.statusText} - ${errorText}`);
+        throw providerErrorFromResponse('twitter', response, `${response.statusText} - ${errorText}`);
       }
 
       const data = await response.json();
       
       if (!data.data || !Array.isArray(data.data)) {
-        console.warn('No tweets found or invalid response format:', data);
+        this.logger.warn('No tweets found or invalid response format', { symbol, response: data });
         return { data: [] };
       }
 
@@ -190,7 +211,7 @@ export class SocialService {
         data: relevantTweets
       };
     } catch (error) {
-      console.error('Error in fetchTwitterData:', error);
+      this.logger.error('Error in fetchTwitterData', { symbol, error });
       throw error;
     }
   }
@@ -231,7 +252,7 @@ export class SocialService {
 
       return tweets.filter(t => relevantIds.has(t.id));
     } catch (error) {
-      console.error('Error filtering tweets with GPT:', error);
+      this.logger.warn('Error filtering tweets with GPT, keeping unranked tweets', { symbol, error });
       // Return original tweets if GPT filtering fails
       return tweets.slice(0, maxTweets);
     }
@@ -289,7 +310,7 @@ export class SocialService {
   }
   
   private calculateTrendingScore(tweets: Tweet[]): number {
-    const now = new Date();
+    const now = new Date(this.http.clock());
     const hourInMs = 3600000;
     const maxAge = 48 * hourInMs;
   
@@ -401,12 +422,12 @@ export class SocialService {
 
         return AIAnalysisSchema.parse(analysis);
       } catch (error) {
-        console.error('Error getting GPT analysis:', error);
+        this.logger.error('Error getting GPT analysis', { symbol, error });
         return {
           marketSentiment: {
             direction: 'neutral',
             confidence: 0.1,
-            reasoning: 'Error processing market analysis'
+            reasoning: FALLBACK_REASONING
           },
           keyTrends: [],
           volumeAnalysis: {
@@ -425,4 +446,8 @@ export class SocialService {
 
     
   }
+
+  clearCache(): Promise<void> {
+    return this.cache.clear();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+// src/services/solana.ts
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+import { MintAccount, SolanaAccountInfo, SolanaAccountInfoSchema, solanaRpcEnvelope } from '../types/solana';
+import { ServiceOptions } from '../types/service';
+import { MINT_ACCOUNT_SIZE, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '../constants/token';
+import { Throttle } from '../utils/throttle';
+import { ResolvedServiceOptions, resolveServiceOptions } from '../utils/http';
+import { ProviderError, SchemaMismatchError, TokenNotFoundError, providerErrorFromResponse } from '../utils/errors';
+
+const PROVIDER = 'solana-rpc';
+
+/**
+ * Minimal Solana JSON-RPC client over the shared transport, so fixtures and
+ * a local stand-in server work the same as for the other providers.
+ */
+export class SolanaRpcClient {
+  private readonly http: ResolvedServiceOptions;
+  private requestId = 0;
+
+  constructor(
+    private readonly endpoint: string,
+    options: ServiceOptions = {},
+    private readonly throttle: Throttle = new Throttle(10, 1000)
+  ) {
+    this.http = resolveServiceOptions(options);
+  }
+
+  getAccountInfo(address: string): Promise<SolanaAccountInfo> {
+    return this.request('getAccountInfo', SolanaAccountInfoSchema, [
+      address,
+      { encoding: 'base64', commitment: 'confirmed' }
+    ]);
+  }
+
+  /**
+   * Reads and decodes a mint account. Throws `TokenNotFoundError` when the
+   * account does not exist or is not owned by a token program.
+   */
+  async getMint(address: string): Promise<MintAccount> {
+    const { context, value } = await this.getAccountInfo(address);
+    if (!value || (value.owner !== TOKEN_PROGRAM_ID && value.owner !== TOKEN_2022_PROGRAM_ID)) {
+      throw new TokenNotFoundError(address);
+    }
+
+    const data = Buffer.from(value.data[0], 'base64');
+    if (data.length < MINT_ACCOUNT_SIZE) {
+      throw new ProviderError(PROVIDER, `Account ${address} is too short for a mint: ${data.length} bytes`);
+    }
+
+    return { address, programId: value.owner, slot: context.slot, ...decodeMint(data) };
+  }
+
+  private async request<T extends z.ZodTypeAny>(method: string, schema: T, params: unknown[]): Promise<z.infer<T>> {
+    const response = await this.throttle.add(() =>
+      this.http.transport(this.endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'accept': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params })
+      })
+    );
+
+    if (!response.ok) {
+      throw providerErrorFromResponse(PROVIDER, response, method);
+    }
+
+    const parsed = solanaRpcEnvelope(schema).safeParse(await response.json());
+    if (!parsed.success) {
+      throw new SchemaMismatchError('Solana RPC', method, parsed.error.issues);
+    }
+    if (parsed.data.error) {
+      const { code, message } = parsed.data.error;
+      throw new ProviderError(PROVIDER, `Solana RPC ${method} failed: ${message} (${code})`);
+    }
+    if (parsed.data.result === undefined) {
+      throw new ProviderError(PROVIDER, `Solana RPC ${method} returned neither a result nor an error`);
+    }
+
+    return parsed.data.result;
+  }
+}
+
+/**
+ * The SPL mint layout shared by Token and Token-2022:
+ * u32 option + 32-byte mint authority, u64 supply, u8 decimals,
+ * bool initialized, u32 option + 32-byte freeze authority (little endian).
+ */
+function decodeMint(data: Buffer): Pick<MintAccount, 'supply' | 'decimals' | 'mintAuthority' | 'freezeAuthority' | 'isInitialized'> {
+  const authority = (optionOffset: number) =>
+    data.readUInt32LE(optionOffset) === 1
+      ? new PublicKey(data.subarray(optionOffset + 4, optionOffset + 36)).toBase58()
+      : null;
+
+  return {
+    mintAuthority: authority(0),
+    supply: data.readBigUInt64LE(36),
+    decimals: data.readUInt8(44),
+    isInitialized: data.readUInt8(45) === 1,
+    freezeAuthority: authority(46)
+  };
+}
@@ -1,108 +1,290 @@
 // src/services/technical.ts
-import { Throttle } from '../utils/throttle';
+import { ServiceOptions } from '../types/service';
+import { Logger } from '../types/logger';
+import { ResolvedServiceOptions, resolveServiceOptions } from '../utils/http';
+import { SectionCache } from '../cache/section';
+import { BirdeyeClient } from './birdeye';
+import {
+  detectCandlestickPatterns,
+  detectChartPatterns,
+  detectDivergences,
+  fibonacciLevels,
+  findZones,
+  fitLine
+} from '../patterns';
+import { BENCHMARK_SYMBOLS, SOL_ADDRESS } from '../constants/token';
 import { 
+  CandleSource,
+  CandlestickSignal,
+  Divergence,
   PriceCandle,
+  RelativeStrength,
+  SupportResistance,
   TechnicalAnalysis,
-  TechnicalAnalysisSchema 
+  TechnicalAnalysisSchema,
+  TechnicalAnalysisOptions,
+  TechnicalIndicators,
+  Timeframe,
+  TimeframeSeries,
+  VolumeAnalysis
 } from '../types/technical';
+import {
+  DEFAULT_LOOKBACK_CANDLES,
+  DEFAULT_PRIMARY_TIMEFRAME,
+  DEFAULT_TIMEFRAMES,
+  HIGH_BENCHMARK_CORRELATION,
+  LOW_BENCHMARK_CORRELATION,
+  MAX_LOOKBACK_CANDLES,
+  MIN_INDICATOR_CANDLES,
+  PERFORMANCE_WINDOWS,
+  RELATIVE_STRENGTH_WINDOW,
+  TIMEFRAME_SECONDS
+} from '../constants/technical';
+import {
+  adx,
+  alignByTimestamp,
+  atr,
+  bollingerBands,
+  closes,
+  computeIndicatorSeries,
+  ema,
+  ichimoku,
+  latest,
+  latestValues,
+  macd,
+  obv,
+  parabolicSar,
+  priceRatio,
+  returns,
+  rollingBeta,
+  rollingCorrelation,
+  rsi,
+  sma,
+  stochastic,
+  vwap
+} from '../indicators';
+
+interface CandleSeries {
+  candles: PriceCandle[];
+  source: CandleSource;
+}
+
+interface TimeframeRequest {
+  /** Shortest first, always including `primary` */
+  timeframes: Timeframe[];
+  primary: Timeframe;
+  /** Candles requested per timeframe */
+  lookback: number;
+}
+
+interface AnalysisInput extends TimeframeRequest {
+  candles: Record<string, PriceCandle[]>;
+  indicators: TechnicalIndicators;
+  candleSources: Record<string, CandleSource>;
+  candleCounts: Record<string, number>;
+  /** Benchmark candles on the primary timeframe */
+  benchmark: { address: string; candles: PriceCandle[] } | null;
+}
+
+const INSUFFICIENT_DATA_REASONING = 'Insufficient data for analysis';
+
+// Candles used as the volume baseline, and the z-score that counts as a spike
+const VOLUME_LOOKBACK = 20;
+const VOLUME_SPIKE_Z_SCORE = 2;
+
+/**
+ * True when the analysis is the neutral placeholder returned for tokens
+ * without enough price history, rather than a computed result.
+ */
+export function isInsufficientDataAnalysis(analysis: TechnicalAnalysis): boolean {
+  return analysis.trend.reasoning === INSUFFICIENT_DATA_REASONING;
+}
+
+/**
+ * Trend verdict used for `trend.shortTerm` / `mediumTerm`: bullish when the
+ * last close is above its `period` SMA and more than 1% above the close
+ * `period` candles ago, bearish for the mirror case, neutral otherwise.
+ */
+export function determineTrend(candles: PriceCandle[], period: number): 'bullish' | 'bearish' | 'neutral' {
+  if (candles.length < period) return 'neutral';
+  
+  const average = latest(sma(closes(candles), period), 0);
+  const currentPrice = candles[candles.length - 1].close;
+  const priceChange = ((currentPrice - candles[candles.length - period].close) / candles[candles.length - period].close) * 100;
+  
+  if (currentPrice > average && priceChange > 1) return 'bullish';
+  if (currentPrice < average && priceChange < -1) return 'bearish';
+  return 'neutral';
+}
+
+/**
+ * Fills in the default timeframes, makes sure the primary one is analyzed,
+ * and raises the lookback so every indicator can warm up.
+ */
+function resolveTimeframes(options: TechnicalAnalysisOptions): TimeframeRequest {
+  const requested = options.timeframes?.length ? options.timeframes : [...DEFAULT_TIMEFRAMES];
+  const sorted = [...new Set(requested)].sort((a, b) => TIMEFRAME_SECONDS[a] - TIMEFRAME_SECONDS[b]);
+  const primary = options.primaryTimeframe
+    ?? (sorted.includes(DEFAULT_PRIMARY_TIMEFRAME) ? DEFAULT_PRIMARY_TIMEFRAME : sorted[Math.floor((sorted.length - 1) / 2)]);
+
+  return {
+    timeframes: sorted.includes(primary)
+      ? sorted
+      : [...sorted, primary].sort((a, b) => TIMEFRAME_SECONDS[a] - TIMEFRAME_SECONDS[b]),
+    primary,
+    lookback: Math.min(
+      Math.max(Math.floor(options.lookback ?? DEFAULT_LOOKBACK_CANDLES), MIN_INDICATOR_CANDLES),
+      MAX_LOOKBACK_CANDLES
+    )
+  };
+}
 
 export class TechnicalAnalysisService {
-  private readonly birdseyeThrottle: Throttle;
-  private readonly cache: Map<string, { data: TechnicalAnalysis; timestamp: number }>;
-  private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-  constructor(private readonly birdseyeApiKey: string) {
-    this.birdseyeThrottle = new Throttle(3, 1000);
-    this.cache = new Map();
+  private readonly birdeye: BirdeyeClient;
+  private readonly cache: SectionCache<TechnicalAnalysis>;
+  private readonly http: ResolvedServiceOptions;
+  private readonly logger: Logger;
+
+  constructor(birdseyeApiKey: string, options: ServiceOptions = {}) {
+    this.birdeye = new BirdeyeClient(birdseyeApiKey, options);
+    this.http = resolveServiceOptions(options);
+    this.logger = this.http.logger;
+    this.cache = new SectionCache('technical', options.cache, undefined, this.logger, this.http.clock);
   }
 
-  async analyzeTechnicals(address: string): Promise<TechnicalAnalysis> {
+  async analyzeTechnicals(address: string, options: TechnicalAnalysisOptions = {}): Promise<TechnicalAnalysis> {
+    const request = resolveTimeframes(options);
+    const benchmark = options.benchmark ?? SOL_ADDRESS;
     try {
-      console.log('Starting technical analysis for:', address);
-      const cacheKey = `ta_${address}`;
-      const cached = this.cache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-        return cached.data;
-      }
+      this.logger.info('Starting technical analysis', { address, benchmark, ...request });
+      return await this.cache.getOrLoad(
+        `ta_${address}_${request.timeframes.join('-')}_${request.primary}_${request.lookback}_${benchmark || 'none'}${options.includeSeries ? '_series' : ''}`,
+        () => this.runAnalysis(address, request, { ...options, benchmark })
+      );
+    } catch (error) {
+      this.logger.error('Error in technical analysis', { address, error });
+      throw error;
+    }
+  }
 
-      console.log('Fetching price data for technical analysis...');
-      const [fifteenMin, oneHour, fourHour] = await Promise.all([
-        this.getHistoricalPrices(address, '15m'),
-        this.getHistoricalPrices(address, '1H'),
-        this.getHistoricalPrices(address, '4H')
-      ]);
+  private async runAnalysis(
+    address: string,
+    { timeframes, primary, lookback }: TimeframeRequest,
+    options: TechnicalAnalysisOptions
+  ): Promise<TechnicalAnalysis> {
+    this.logger.debug('Fetching price data for technical analysis', { address, timeframes, lookback });
+    // The benchmark is fetched alongside, and skipped when analyzing the benchmark itself
+    const benchmark = options.benchmark && options.benchmark !== address ? options.benchmark : null;
+    const [fetched, benchmarkCandles] = await Promise.all([
+      Promise.all(timeframes.map(timeframe => this.getHistoricalPrices(address, timeframe, lookback))),
+      benchmark ? this.getBenchmarkCandles(benchmark, primary, lookback) : Promise.resolve(null)
+    ]);
+
+    const candles: Record<string, PriceCandle[]> = {};
+    const candleSources: Record<string, CandleSource> = {};
+    const candleCounts: Record<string, number> = {};
+    timeframes.forEach((timeframe, i) => {
+      candles[timeframe] = fetched[i].candles;
+      candleSources[timeframe] = fetched[i].source;
+      candleCounts[timeframe] = fetched[i].candles.length;
+    });
 
-      if (!oneHour.length || !fifteenMin.length || !fourHour.length) {
-        console.log('Insufficient price data for analysis, returning default');
-        return this.getDefaultAnalysis();
-      }
+    const series = options.includeSeries
+      ? Object.fromEntries(timeframes.map(timeframe => [timeframe, this.buildSeries(candles[timeframe])]))
+      : undefined;
 
-      console.log('Calculating technical indicators...');
-      const indicators = this.calculateIndicators(oneHour);
+    if (!candles[primary].length) {
+      this.logger.warn('Insufficient price data for analysis, returning default', { address, primary });
+      return { ...this.getDefaultAnalysis(primary, candleSources, candleCounts), series };
+    }
 
-      console.log('Performing pattern analysis...');
-      const analysis = await this.performAnalysis({
-        fifteenMin,
-        oneHour,
-        fourHour,
-        indicators
+    this.logger.debug('Calculating technical indicators', { address, primary });
+    const indicators = this.calculateIndicators(candles[primary]);
+    if (indicators.insufficientData.length) {
+      this.logger.warn('Too few candles for some indicators', {
+        address,
+        primary,
+        candles: candleCounts[primary],
+        indicators: indicators.insufficientData
       });
+    }
 
-      console.log('Validating technical analysis...');
-      const validated = TechnicalAnalysisSchema.parse(analysis);
+    this.logger.debug('Performing pattern analysis', { address });
+    const analysis = await this.performAnalysis({
+      timeframes,
+      primary,
+      lookback,
+      candles,
+      indicators,
+      candleSources,
+      candleCounts,
+      benchmark: benchmark && benchmarkCandles ? { address: benchmark, candles: benchmarkCandles } : null
+    });
 
-      this.cache.set(cacheKey, {
-        data: validated,
-        timestamp: Date.now()
-      });
+    this.logger.debug('Validating technical analysis', { address });
+    return TechnicalAnalysisSchema.parse({ ...analysis, series });
+  }
 
-      return validated;
+  private async getBenchmarkCandles(benchmark: string, timeframe: Timeframe, lookback: number): Promise<PriceCandle[] | null> {
+    try {
+      return (await this.getHistoricalPrices(benchmark, timeframe, lookback)).candles;
     } catch (error) {
-      console.error('Error in technical analysis:', error);
-      return this.getDefaultAnalysis();
+      this.logger.warn('Benchmark candles unavailable, skipping relative strength', { benchmark, timeframe, error });
+      return null;
     }
   }
 
-  private async getHistoricalPrices(address: string, timeframe: string): Promise<PriceCandle[]> {
-    console.log(`Fetching ${timeframe} candles for ${address}...`);
-    try {
-      // Get more historical data points
-      const now = Math.floor(Date.now() / 1000);
-      const oneWeekAgo = now - (7 * 24 * 60 * 60); // 7 days of data
-      
-      const response = await this.birdseyeThrottle.add(() =>
-        fetch(
-          `https://public-api.birdeye.so/defi/history_price?` + 
-          `address=${address}` +
-          `&address_type=token` +
-          `&type=${timeframe}` +
-          `&time_from=${oneWeekAgo}` +
-          `&time_to=${now}`,
-          {
-            method: 'GET',
-            headers: {
-              'accept': 'application/json',
-              'x-chain': 'solana',
-              'X-API-KEY': this.birdseyeApiKey
-            }
-          }
-        )
-      );
+  private buildSeries(candles: PriceCandle[]): TimeframeSeries {
+    const indicators: TimeframeSeries['indicators'] = {};
+    for (const [name, values] of Object.entries(computeIndicatorSeries(candles))) {
+      // NaN does not survive JSON, so warm-up entries become null
+      indicators[name] = values.map(value => Number.isNaN(value) ? null : value);
+    }
+    return { timestamps: candles.map(candle => candle.timestamp), candles, indicators };
+  }
 
-      if (!response.ok) {
-        throw new Error(`Birdeye API error: ${response.status}`);
+  /**
+   * Real OHLCV candles when Birdeye has them, otherwise synthetic candles
+   * built from the price history. The returned `source` says which.
+   */
+  private async getHistoricalPrices(address: string, timeframe: Timeframe, lookback: number): Promise<CandleSeries> {
+    this.logger.debug('Fetching candles', { address, timeframe, lookback });
+    const now = Math.floor(this.http.clock() / 1000);
+    const from = now - lookback * TIMEFRAME_SECONDS[timeframe];
+
+    try {
+      const { items } = await this.birdeye.getOhlcv(address, timeframe, from, now);
+      if (items.length > 0) {
+        const candles = items.map(item => ({
+          timestamp: item.unixTime,
+          open: item.o,
+          high: item.h,
+          low: item.l,
+          close: item.c,
+          volume: item.v
+        }));
+        this.logger.debug('Received OHLCV candles', { address, timeframe, count: candles.length });
+        return { candles, source: 'ohlcv' };
       }
+      this.logger.warn('No OHLCV candles, falling back to synthetic candles', { address, timeframe });
+    } catch (error) {
+      this.logger.warn('OHLCV request failed, falling back to synthetic candles', { address, timeframe, error });
+    }
 
-      const data = await response.json();
-      console.log(`Received ${data.data?.items?.length || 0} price points for ${timeframe}`);
+    return { candles: await this.getSyntheticCandles(address, timeframe, from, now), source: 'synthetic' };
+  }
 
-      if (!data.success || !data.data?.items || !Array.isArray(data.data.items)) {
-        console.warn(`Invalid price history format for ${timeframe}:`, data);
-        return [];
-      }
+  private async getSyntheticCandles(
+    address: string,
+    timeframe: string,
+    timeFrom: number,
+    timeTo: number
+  ): Promise<PriceCandle[]> {
+    try {
+      const { items } = await this.birdeye.getPriceHistory(address, timeframe, timeFrom, timeTo);
+      this.logger.debug('Received price points', { address, timeframe, count: items.length });
 
       // Convert price points to candles
-      const items = data.data.items;
       if (items.length < 2) return [];
 
       const candles: PriceCandle[] = [];
@@ -111,11 +293,11 @@ export class TechnicalAnalysisService {
         const previous = items[i - 1];
         
         // Create a candle using current and previous values
-        const value = Number(current.value || 0);
-        const prevValue = Number(previous.value || 0);
+        const value = current.value;
+        const prevValue = previous.value;
         
         candles.push({
-          timestamp: Number(current.unixTime || 0),
+          timestamp: current.unixTime,
           open: prevValue,
           close: value,
           high: Math.max(value, prevValue),
@@ -124,321 +306,405 @@ export class TechnicalAnalysisService {
         });
       }
 
-      console.log(`Processed ${candles.length} candles for ${timeframe}`);
+      this.logger.debug('Processed candles', { address, timeframe, count: candles.length });
       return candles;
 
     } catch (error) {
-      console.error(`Error fetching ${timeframe} candles:`, error);
-      return [];
+      this.logger.error('Error fetching candles', { address, timeframe, error });
+      throw error;
     }
   }
 
-  private calculateIndicators(candles: PriceCandle[]) {
-    return {
-      rsi: this.calculateRSI(candles),
-      macd: this.calculateMACD(candles),
+  private calculateIndicators(candles: PriceCandle[]): TechnicalIndicators {
+    const prices = closes(candles);
+    const macdSeries = macd(candles);
+    const { conversion, base, spanA, spanB } = ichimoku(candles);
+    const sar = parabolicSar(candles);
+    const sarValue = latest(sar.sar);
+    const sarDirection = sar.direction[sar.direction.length - 1];
+
+    const values: Omit<TechnicalIndicators, 'insufficientData'> = {
+      rsi: latest(rsi(candles)),
+      macd: latestValues({ value: macdSeries.macd, signal: macdSeries.signal, histogram: macdSeries.histogram }),
       movingAverages: {
-        sma20: this.calculateSMA(candles, 20),
-        sma50: this.calculateSMA(candles, 50),
-        sma200: this.calculateSMA(candles, 200),
-        ema20: this.calculateEMA(candles, 20)
-      }
+        sma20: latest(sma(prices, 20)),
+        sma50: latest(sma(prices, 50)),
+        sma200: latest(sma(prices, 200)),
+        ema20: latest(ema(prices, 20))
+      },
+      bollingerBands: latestValues(bollingerBands(candles)),
+      atr: latest(atr(candles)),
+      stochastic: latestValues(stochastic(candles, { smooth: 3 })),
+      adx: latestValues(adx(candles)),
+      obv: latest(obv(candles)),
+      vwap: latest(vwap(candles)),
+      ichimoku: latestValues({ conversion, base, spanA, spanB }),
+      parabolicSar: sarValue !== null && sarDirection ? { value: sarValue, direction: sarDirection } : null
     };
+
+    const { movingAverages, ...others } = values;
+    const insufficientData = [...Object.entries(movingAverages), ...Object.entries(others)]
+      .filter(([, value]) => value === null)
+      .map(([name]) => name);
+
+    return { ...values, insufficientData };
   }
 
-  private async performAnalysis(data: {
-    fifteenMin: PriceCandle[];
-    oneHour: PriceCandle[];
-    fourHour: PriceCandle[];
-    indicators: any;
-  }): Promise<TechnicalAnalysis> {
-    console.log('Starting pattern analysis with data points:', {
-      fifteenMin: data.fifteenMin.length,
-      oneHour: data.oneHour.length,
-      fourHour: data.fourHour.length
-    });
+  private async performAnalysis(data: AnalysisInput): Promise<TechnicalAnalysis> {
+    this.logger.debug('Starting pattern analysis', { candles: data.candleCounts, primary: data.primary });
+    const primaryCandles = data.candles[data.primary];
 
-    const prices = data.oneHour.map(candle => candle.close);
-    const supportLevels = this.findSupportLevels(prices);
-    const resistanceLevels = this.findResistanceLevels(prices);
+    const supportResistance = this.buildSupportResistance(primaryCandles);
 
-    console.log('Support and resistance levels:', {
-      support: supportLevels,
-      resistance: resistanceLevels
+    this.logger.debug('Support and resistance zones', {
+      zones: supportResistance.zones,
+      fibonacci: supportResistance.fibonacci
     });
 
-    const shortTermTrend = this.determineTrend(data.fifteenMin, 20);
-    const mediumTermTrend = this.determineTrend(data.oneHour, 50);
+    const shortTermTrend = determineTrend(data.candles[data.timeframes[0]], 20);
+    const mediumTermTrend = determineTrend(primaryCandles, 50);
 
-    console.log('Trend analysis:', {
+    this.logger.debug('Trend analysis', {
       shortTerm: shortTermTrend,
       mediumTerm: mediumTermTrend
     });
 
-    const patterns = this.identifyPatterns(data.oneHour);
-    console.log('Identified patterns:', patterns);
+    const patterns = detectChartPatterns(primaryCandles);
+    this.logger.debug('Identified patterns', { patterns });
 
-    const volumeAnalysis = this.analyzeVolume(data.oneHour);
-    const confidence = this.calculateTrendConfidence(data);
+    const candlestickPatterns = this.detectCandlesticks(data.candles, data.candleSources);
+
+    const volumeAnalysis = this.analyzeVolume(primaryCandles);
+    // Divergences on the primary timeframe and every longer one
+    const divergences = Object.fromEntries(
+      data.timeframes
+        .filter(timeframe => TIMEFRAME_SECONDS[timeframe] >= TIMEFRAME_SECONDS[data.primary])
+        .map(timeframe => [timeframe, detectDivergences(data.candles[timeframe])])
+    );
+    this.logger.debug('Detected divergences', { divergences });
+
+    const relativeStrength = data.benchmark ? this.analyzeRelativeStrength(primaryCandles, data.benchmark) : null;
+    this.logger.debug('Relative strength', { relativeStrength });
+
+    const confidence = this.calculateTrendConfidence(data, divergences);
 
     return {
       patterns,
+      candlestickPatterns,
+      divergences,
       indicators: data.indicators,
-      supportResistance: {
-        support: supportLevels,
-        resistance: resistanceLevels,
-        strongestSupport: supportLevels[0] || 0,
-        strongestResistance: resistanceLevels[resistanceLevels.length - 1] || 0
-      },
+      supportResistance,
       trend: {
         shortTerm: shortTermTrend,
         mediumTerm: mediumTermTrend,
         confidence,
-        reasoning: this.generateTrendReasoning(shortTermTrend, mediumTermTrend, data.indicators)
+        reasoning: this.generateTrendReasoning(shortTermTrend, mediumTermTrend, data.indicators, divergences, relativeStrength)
       },
-      volumeAnalysis
+      volumeAnalysis,
+      relativeStrength,
+      primaryTimeframe: data.primary,
+      candleCounts: data.candleCounts,
+      candleSources: data.candleSources
     };
   }
 
-  private calculateRSI(candles: PriceCandle[], periods: number = 14): number {
-    if (candles.length < periods + 1) return 50;
-
-    let gains = 0;
-    let losses = 0;
-
-    for (let i = 1; i <= periods; i++) {
-      const change = candles[i].close - candles[i - 1].close;
-      if (change >= 0) {
-        gains += change;
-      } else {
-        losses -= change;
-      }
-    }
-
-    let avgGain = gains / periods;
-    let avgLoss = losses / periods;
-
-    for (let i = periods + 1; i < candles.length; i++) {
-      const change = candles[i].close - candles[i - 1].close;
-      
-      if (change >= 0) {
-        avgGain = (avgGain * 13 + change) / 14;
-        avgLoss = (avgLoss * 13) / 14;
-      } else {
-        avgGain = (avgGain * 13) / 14;
-        avgLoss = (avgLoss * 13 - change) / 14;
+  /**
+   * Candlestick signals per timeframe, checked against that timeframe's own
+   * support and resistance. Synthetic candles are skipped: their open is the
+   * previous close and they have no wicks, so every shape would be noise.
+   */
+  private detectCandlesticks(
+    timeframes: Record<string, PriceCandle[]>,
+    candleSources: Record<string, CandleSource>
+  ): Record<string, CandlestickSignal[]> {
+    const signals: Record<string, CandlestickSignal[]> = {};
+
+    for (const [timeframe, candles] of Object.entries(timeframes)) {
+      if (candleSources[timeframe] !== 'ohlcv') {
+        signals[timeframe] = [];
+        continue;
       }
+      const zones = findZones(candles);
+      signals[timeframe] = detectCandlestickPatterns(candles, {
+        support: zones.filter(zone => zone.type === 'support').map(zone => zone.price),
+        resistance: zones.filter(zone => zone.type === 'resistance').map(zone => zone.price)
+      });
     }
 
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
+    this.logger.debug('Detected candlestick signals', {
+      counts: Object.fromEntries(Object.entries(signals).map(([timeframe, list]) => [timeframe, list.length]))
+    });
+    return signals;
   }
 
-  private calculateMACD(candles: PriceCandle[]): { value: number; signal: number; histogram: number } {
-    const prices = candles.map(c => c.close);
-    const ema12 = this.calculateEMAArray(prices, 12);
-    const ema26 = this.calculateEMAArray(prices, 26);
-    
-    const macdLine = ema12[ema12.length - 1] - ema26[ema26.length - 1];
-    const macdHistory = prices.map((_, i) => ema12[i] - ema26[i]);
-    const signalLine = this.calculateEMAArray(macdHistory, 9);
-    
+  /**
+   * Zones from clustered swings on the primary timeframe, with `support` / `resistance` listing
+   * their prices strongest first so the strongest level leads each list.
+   */
+  private buildSupportResistance(candles: PriceCandle[]): SupportResistance {
+    const zones = findZones(candles);
+    const support = zones.filter(zone => zone.type === 'support').map(zone => zone.price);
+    const resistance = zones.filter(zone => zone.type === 'resistance').map(zone => zone.price);
+
     return {
-      value: macdLine,
-      signal: signalLine[signalLine.length - 1],
-      histogram: macdLine - signalLine[signalLine.length - 1]
+      support,
+      resistance,
+      strongestSupport: support[0] || 0,
+      strongestResistance: resistance[0] || 0,
+      zones,
+      fibonacci: fibonacciLevels(candles)
     };
   }
 
-  private calculateSMA(candles: PriceCandle[], periods: number): number {
-    if (candles.length < periods) return 0;
-    const prices = candles.slice(-periods).map(c => c.close);
-    return prices.reduce((a, b) => a + b, 0) / periods;
-  }
-
-  private calculateEMA(candles: PriceCandle[], periods: number): number {
-    const prices = candles.map(c => c.close);
-    const emaArray = this.calculateEMAArray(prices, periods);
-    return emaArray[emaArray.length - 1];
-  }
+  /**
+   * Token against the benchmark: the price ratio's trend over the last
+   * `RELATIVE_STRENGTH_WINDOW` candles, beta and correlation of their
+   * returns, and 24h / 7d outperformance where the history reaches back far enough.
+   */
+  private analyzeRelativeStrength(
+    candles: PriceCandle[],
+    benchmark: { address: string; candles: PriceCandle[] }
+  ): RelativeStrength | null {
+    const [asset, reference] = alignByTimestamp(candles, benchmark.candles);
+    if (asset.length < 2) {
+      this.logger.warn('Benchmark candles do not overlap the token\'s, skipping relative strength', {
+        benchmark: benchmark.address
+      });
+      return null;
+    }
 
-  private calculateEMAArray(values: number[], periods: number): number[] {
-    if (values.length < periods) return values;
-    
-    const multiplier = 2 / (periods + 1);
-    const ema = [values[0]];
-    
-    for (let i = 1; i < values.length; i++) {
-      ema.push((values[i] - ema[i - 1]) * multiplier + ema[i - 1]);
+    const ratios = priceRatio(asset, reference);
+    const recentRatios = ratios.slice(-RELATIVE_STRENGTH_WINDOW).filter(Number.isFinite);
+    const ratio = recentRatios[recentRatios.length - 1] ?? NaN;
+    if (!Number.isFinite(ratio)) return null;
+
+    const fit = fitLine(recentRatios.map((value, i) => ({ x: i, y: value })));
+    const ratioMove = (fit.slope * (recentRatios.length - 1)) / (recentRatios.reduce((sum, value) => sum + value, 0) / recentRatios.length);
+    const ratioTrend = ratioMove > 0.02 ? 'rising' : ratioMove < -0.02 ? 'falling' : 'flat';
+
+    const assetReturns = returns(asset);
+    const referenceReturns = returns(reference);
+    const window = Math.min(RELATIVE_STRENGTH_WINDOW, asset.length - 1);
+    const beta = window >= 2 ? latest(rollingBeta(assetReturns, referenceReturns, window)) : null;
+    const correlation = window >= 2 ? latest(rollingCorrelation(assetReturns, referenceReturns, window)) : null;
+
+    const performance: RelativeStrength['performance'] = {};
+    const last = asset.length - 1;
+    for (const [name, seconds] of Object.entries(PERFORMANCE_WINDOWS)) {
+      const since = asset[last].timestamp - seconds;
+      if (asset[0].timestamp > since) continue;
+      const start = asset.findIndex(candle => candle.timestamp >= since);
+      const token = asset[last].close / asset[start].close - 1;
+      const benchmarkReturn = reference[last].close / reference[start].close - 1;
+      performance[name] = { token, benchmark: benchmarkReturn, outperformance: token - benchmarkReturn };
     }
-    
-    return ema;
+
+    const benchmarkSymbol = BENCHMARK_SYMBOLS[benchmark.address] ?? null;
+    return {
+      benchmark: benchmark.address,
+      benchmarkSymbol,
+      ratio,
+      ratioTrend,
+      beta,
+      correlation,
+      performance,
+      insight: this.generateRelativeStrengthInsight(benchmarkSymbol ?? 'the benchmark', ratioTrend, correlation, beta, performance)
+    };
   }
 
-  private findSupportLevels(prices: number[]): number[] {
-    const pivots = [];
-    for (let i = 2; i < prices.length - 2; i++) {
-      if (
-        prices[i] < prices[i - 1] && 
-        prices[i] < prices[i - 2] &&
-        prices[i] < prices[i + 1] && 
-        prices[i] < prices[i + 2]
-      ) {
-        pivots.push(prices[i]);
-      }
+  private generateRelativeStrengthInsight(
+    label: string,
+    ratioTrend: RelativeStrength['ratioTrend'],
+    correlation: number | null,
+    beta: number | null,
+    performance: RelativeStrength['performance']
+  ): string {
+    const parts = [];
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+    const [window, result] = Object.entries(performance)[0] ?? [];
+    if (window && result) {
+      parts.push(
+        `${result.outperformance >= 0 ? 'Outperforming' : 'Underperforming'} ${label} by ${percent(Math.abs(result.outperformance))} over ${window} ` +
+        `(token ${percent(result.token)}, ${label} ${percent(result.benchmark)})`
+      );
     }
-    return [...new Set(pivots)].sort((a, b) => b - a).slice(0, 3);
-  }
 
-  private findResistanceLevels(prices: number[]): number[] {
-    const pivots = [];
-    for (let i = 2; i < prices.length - 2; i++) {
-      if (
-        prices[i] > prices[i - 1] && 
-        prices[i] > prices[i - 2] &&
-        prices[i] > prices[i + 1] && 
-        prices[i] > prices[i + 2]
-      ) {
-        pivots.push(prices[i]);
-      }
+    if (correlation !== null && correlation >= HIGH_BENCHMARK_CORRELATION) {
+      parts.push(`moves closely with ${label} (correlation ${correlation.toFixed(2)}${beta !== null ? `, beta ${beta.toFixed(2)}` : ''}), so the move is largely market-driven`);
+    } else if (correlation !== null && correlation <= LOW_BENCHMARK_CORRELATION) {
+      parts.push(`low correlation with ${label} (${correlation.toFixed(2)}), so the move is token-specific`);
     }
-    return [...new Set(pivots)].sort((a, b) => a - b).slice(-3);
+
+    parts.push(`token/${label} ratio ${ratioTrend}`);
+    const insight = parts.join('; ');
+    return insight.charAt(0).toUpperCase() + insight.slice(1);
   }
 
-  private determineTrend(candles: PriceCandle[], period: number): 'bullish' | 'bearish' | 'neutral' {
-    if (candles.length < period) return 'neutral';
+  private calculateTrendConfidence(data: AnalysisInput, divergences: Record<string, Divergence[]>): number {
+    let confidence = 0;
+    const { rsi, macd, movingAverages: { sma20, sma50, sma200 } } = data.indicators;
     
-    const sma = this.calculateSMA(candles, period);
-    const currentPrice = candles[candles.length - 1].close;
-    const priceChange = ((currentPrice - candles[candles.length - period].close) / candles[candles.length - period].close) * 100;
+    // RSI confirmation (20%)
+    if (rsi !== null && (rsi > 70 || rsi < 30)) confidence += 0.2;
     
-    if (currentPrice > sma && priceChange > 1) return 'bullish';
-    if (currentPrice < sma && priceChange < -1) return 'bearish';
-    return 'neutral';
-  }
-
-  private identifyPatterns(candles: PriceCandle[]): Array<{
-    name: string;
-    confidence: number;
-    implication: 'bullish' | 'bearish' | 'neutral';
-    priceTarget: number | null;
-  }> {
-    const patterns = [];
-    const lastPrice = candles[candles.length - 1].close;
+    // MACD confirmation (20%)
+    if (macd && Math.abs(macd.histogram) > Math.abs(macd.signal)) confidence += 0.2;
     
-    // Double Bottom
-    if (this.isDoubleBottom(candles)) {
-      patterns.push({
-        name: 'Double Bottom',
-        confidence: 0.8,
-        implication: 'bullish' as 'bullish',
-        priceTarget: lastPrice * 1.1
-      });
-    }
+    // Moving average confirmation (40%), skipped for averages without enough history
+    if (sma20 !== null && sma50 !== null && sma20 > sma50) confidence += 0.2;
+    if (sma50 !== null && sma200 !== null && sma50 > sma200) confidence += 0.2;
     
-    // Head and Shoulders
-    if (this.isHeadAndShoulders(candles)) {
-      patterns.push({
-        name: 'Head and Shoulders',
-        confidence: 0.7,
-        implication: 'bearish' as 'bearish',
-        priceTarget: lastPrice * 0.9
-      });
+    // Price consistency across neighbouring timeframes (20%)
+    const trends = data.timeframes.map((timeframe, i) => determineTrend(data.candles[timeframe], i === 0 ? 20 : 50));
+    for (let i = 1; i < trends.length; i++) {
+      if (trends[i] === trends[i - 1]) confidence += 0.2 / (trends.length - 1);
     }
-    
-    return patterns;
-  }
 
-  private isDoubleBottom(candles: PriceCandle[]): boolean {
-    if (candles.length < 20) return false;
-    
-    const recentLows = candles
-      .slice(-20)
-      .map((c, i) => ({ price: c.low, index: i }))
-      .sort((a, b) => a.price - b.price)
-      .slice(0, 2);
-      
-    const indexDiff = Math.abs(recentLows[0].index - recentLows[1].index);
-    const priceDiff = Math.abs(recentLows[0].price - recentLows[1].price) / recentLows[0].price;
-    
-    return indexDiff > 5 && priceDiff < 0.02;
+    // Divergences agreeing with the primary trend add up to 20%, opposing ones take up to 20% off.
+    // Those on longer timeframes count double
+    const primaryTrend = determineTrend(data.candles[data.primary], 50);
+    if (primaryTrend !== 'neutral') {
+      const adjustment = Object.entries(divergences).reduce((sum, [timeframe, signals]) => {
+        const weight = timeframe === data.primary ? 0.05 : 0.1;
+        return sum + signals.reduce((total, signal) =>
+          total + (signal.direction === primaryTrend ? 1 : -1) * signal.strength * weight, 0);
+      }, 0);
+      confidence += Math.max(Math.min(adjustment, 0.2), -0.2);
+    }
+
+    return Math.min(Math.max(confidence, 0), 1);
   }
 
-  private isHeadAndShoulders(candles: PriceCandle[]): boolean {
-    if (candles.length < 20) return false;
-    
-    const peaks = this.findPeaks(candles.slice(-20));
-    if (peaks.length < 3) return false;
-    
-    const [leftShoulder, head, rightShoulder] = peaks.slice(-3);
-    
-    return (
-      head.price > leftShoulder.price &&
-      head.price > rightShoulder.price &&
-      Math.abs(leftShoulder.price - rightShoulder.price) / leftShoulder.price < 0.05
+  /**
+   * Compares the latest volume with the preceding `VOLUME_LOOKBACK` candles
+   * and checks whether OBV and VWAP back the price move.
+   */
+  private analyzeVolume(candles: PriceCandle[]): VolumeAnalysis {
+    const volumes = candles.map(candle => candle.volume);
+    if (candles.length <= VOLUME_LOOKBACK || volumes.every(volume => volume === 0)) {
+      return this.getUnavailableVolumeAnalysis(
+        candles.length <= VOLUME_LOOKBACK
+          ? 'Not enough candles for volume analysis'
+          : 'Volume analysis not available: candles carry no volume data'
+      );
+    }
+
+    const latestVolume = volumes[volumes.length - 1];
+    const baseline = volumes.slice(-VOLUME_LOOKBACK - 1, -1);
+    const mean = baseline.reduce((sum, volume) => sum + volume, 0) / baseline.length;
+    const stdDev = Math.sqrt(baseline.reduce((sum, volume) => sum + (volume - mean) ** 2, 0) / baseline.length);
+
+    const relativeVolume = mean > 0 ? latestVolume / mean : 0;
+    const zScore = stdDev > 0 ? (latestVolume - mean) / stdDev : 0;
+    const unusualActivity = zScore >= VOLUME_SPIKE_Z_SCORE;
+
+    const recent = volumes.slice(-5);
+    const recentRatio = mean > 0 ? recent.reduce((sum, volume) => sum + volume, 0) / recent.length / mean : 1;
+    const trend = recentRatio > 1.2 ? 'rising' : recentRatio < 0.8 ? 'falling' : 'stable';
+
+    const obvSeries = obv(candles);
+    const obvChange = obvSeries[obvSeries.length - 1] - obvSeries[obvSeries.length - 1 - VOLUME_LOOKBACK];
+    const windowVolume = volumes.slice(-VOLUME_LOOKBACK).reduce((sum, volume) => sum + volume, 0);
+    // OBV moves under 5% of the window's volume are treated as noise
+    const obvTrend = obvChange > windowVolume * 0.05 ? 'rising' : obvChange < -windowVolume * 0.05 ? 'falling' : 'flat';
+
+    const lastClose = candles[candles.length - 1].close;
+    const priceChange = lastClose - candles[candles.length - 1 - VOLUME_LOOKBACK].close;
+    const confirmation =
+      obvTrend === 'flat' || priceChange === 0 ? 'neutral' :
+      (obvTrend === 'rising') === (priceChange > 0) ? 'confirmed' :
+      'divergent';
+
+    const windowVwap = latest(vwap(candles.slice(-VOLUME_LOOKBACK)), 0);
+
+    const significance = Math.min(
+      0.5 * Math.min(Math.abs(zScore) / (VOLUME_SPIKE_Z_SCORE * 1.5), 1) +
+      0.5 * Math.min(Math.abs(relativeVolume - 1), 1),
+      1
     );
+
+    return {
+      trend,
+      significance,
+      relativeVolume,
+      zScore,
+      unusualActivity,
+      obvTrend,
+      vwap: windowVwap,
+      confirmation,
+      insight: this.generateVolumeInsight({
+        trend,
+        relativeVolume,
+        zScore,
+        unusualActivity,
+        obvTrend,
+        confirmation,
+        vwap: windowVwap,
+        lastClose,
+        priceChange
+      })
+    };
   }
 
-  private findPeaks(candles: PriceCandle[]): Array<{ price: number; index: number }> {
-    const peaks = [];
-    for (let i = 1; i < candles.length - 1; i++) {
-      if (candles[i].high > candles[i - 1].high && candles[i].high > candles[i + 1].high) {
-        peaks.push({ price: candles[i].high, index: i });
-      }
+  private generateVolumeInsight(volume: {
+    trend: 'rising' | 'falling' | 'stable';
+    relativeVolume: number;
+    zScore: number;
+    unusualActivity: boolean;
+    obvTrend: 'rising' | 'falling' | 'flat';
+    confirmation: 'confirmed' | 'divergent' | 'neutral';
+    vwap: number;
+    lastClose: number;
+    priceChange: number;
+  }): string {
+    const reasons = [];
+
+    reasons.push(
+      `Volume ${volume.trend}, latest candle at ${volume.relativeVolume.toFixed(2)}x its ${VOLUME_LOOKBACK}-period average ` +
+      `(z-score ${volume.zScore.toFixed(2)})`
+    );
+
+    if (volume.unusualActivity) {
+      reasons.push('Unusual volume spike');
     }
-    return peaks;
-  }
 
-  private calculateTrendConfidence(data: {
-    fifteenMin: PriceCandle[];
-    oneHour: PriceCandle[];
-    fourHour: PriceCandle[];
-    indicators: any;
-  }): number {
-    let confidence = 0;
-    const { rsi, macd, movingAverages } = data.indicators;
-    
-    // RSI confirmation (20%)
-    if (rsi > 70 || rsi < 30) confidence += 0.2;
-    
-    // MACD confirmation (20%)
-    if (Math.abs(macd.histogram) > Math.abs(macd.signal)) confidence += 0.2;
-    
-    // Moving average confirmation (40%)
-    if (movingAverages.sma20 > movingAverages.sma50) confidence += 0.2;
-    if (movingAverages.sma50 > movingAverages.sma200) confidence += 0.2;
-    
-    // Price consistency across timeframes (20%)
-    const fifteenMinTrend = this.determineTrend(data.fifteenMin, 20);
-    const hourTrend = this.determineTrend(data.oneHour, 50);
-    const fourHourTrend = this.determineTrend(data.fourHour, 50);
-    
-    if (fifteenMinTrend === hourTrend) confidence += 0.1;
-    if (hourTrend === fourHourTrend) confidence += 0.1;
-    
-    return Math.min(confidence, 1);
+    const direction = volume.priceChange > 0 ? 'advance' : 'decline';
+    if (volume.confirmation === 'confirmed') {
+      reasons.push(`OBV ${volume.obvTrend} confirms the price ${direction}`);
+    } else if (volume.confirmation === 'divergent') {
+      reasons.push(`OBV ${volume.obvTrend} diverges from the price ${direction}`);
+    } else {
+      reasons.push(`OBV ${volume.obvTrend}, no volume confirmation`);
+    }
+
+    if (volume.vwap > 0) {
+      reasons.push(`Price ${volume.lastClose >= volume.vwap ? 'above' : 'below'} VWAP (${volume.vwap.toPrecision(4)})`);
+    }
+
+    return reasons.join('. ');
   }
 
-  private analyzeVolume(candles: PriceCandle[]): {
-    trend: string;
-    significance: number;
-    unusualActivity: boolean;
-    insight: string;
-  } {
-    // Since we don't have volume data from the history_price endpoint
+  private getUnavailableVolumeAnalysis(insight: string): VolumeAnalysis {
     return {
-      trend: "unknown",
+      trend: 'unknown',
       significance: 0,
+      relativeVolume: 0,
+      zScore: 0,
       unusualActivity: false,
-      insight: "Volume analysis not available for this token"
+      obvTrend: 'flat',
+      vwap: 0,
+      confirmation: 'neutral',
+      insight
     };
   }
 
   private generateTrendReasoning(
     shortTerm: 'bullish' | 'bearish' | 'neutral',
     mediumTerm: 'bullish' | 'bearish' | 'neutral',
-    indicators: any
+    indicators: TechnicalIndicators,
+    divergences: Record<string, Divergence[]>,
+    relativeStrength: RelativeStrength | null
   ): string {
     const reasons = [];
     
@@ -450,76 +716,94 @@ export class TechnicalAnalysisService {
     }
     
     // RSI conditions
-    if (indicators.rsi > 70) {
+    if (indicators.rsi !== null && indicators.rsi > 70) {
       reasons.push('Overbought RSI conditions suggest potential pullback');
-    } else if (indicators.rsi < 30) {
+    } else if (indicators.rsi !== null && indicators.rsi < 30) {
       reasons.push('Oversold RSI conditions suggest potential bounce');
     }
     
     // MACD analysis
-    if (indicators.macd.histogram > 0 && indicators.macd.histogram > indicators.macd.signal) {
+    const { macd } = indicators;
+    if (macd && macd.histogram > 0 && macd.histogram > macd.signal) {
       reasons.push('MACD showing strong positive momentum');
-    } else if (indicators.macd.histogram < 0 && indicators.macd.histogram < indicators.macd.signal) {
+    } else if (macd && macd.histogram < 0 && macd.histogram < macd.signal) {
       reasons.push('MACD indicating negative momentum');
     }
     
     // Moving averages
-    if (indicators.movingAverages.sma20 > indicators.movingAverages.sma50) {
-      if (indicators.movingAverages.sma50 > indicators.movingAverages.sma200) {
+    const { sma20, sma50, sma200 } = indicators.movingAverages;
+    if (sma20 !== null && sma50 !== null && sma20 > sma50) {
+      if (sma200 === null) {
+        reasons.push('Short-term moving averages bullish');
+      } else if (sma50 > sma200) {
         reasons.push('All moving averages aligned bullishly (20 > 50 > 200)');
       } else {
         reasons.push('Short-term moving averages bullish but long-term resistance ahead');
       }
-    } else if (indicators.movingAverages.sma20 < indicators.movingAverages.sma50) {
-      if (indicators.movingAverages.sma50 < indicators.movingAverages.sma200) {
+    } else if (sma20 !== null && sma50 !== null && sma20 < sma50) {
+      if (sma200 === null) {
+        reasons.push('Short-term moving averages bearish');
+      } else if (sma50 < sma200) {
         reasons.push('All moving averages aligned bearishly (20 < 50 < 200)');
       } else {
         reasons.push('Short-term moving averages bearish but long-term support present');
       }
     }
+
+    if (indicators.insufficientData.length) {
+      reasons.push(`Not enough history for ${indicators.insufficientData.join(', ')}`);
+    }
     
+    // Most recent divergence per timeframe
+    for (const [timeframe, signals] of Object.entries(divergences)) {
+      const signal = signals[signals.length - 1];
+      if (signal) {
+        reasons.push(
+          `${signal.type === 'regular' ? 'Regular' : 'Hidden'} ${signal.direction} ${signal.indicator.toUpperCase()} divergence on ${timeframe}`
+        );
+      }
+    }
+
+    if (relativeStrength) {
+      reasons.push(relativeStrength.insight);
+    }
+
     return reasons.join('. ');
   }
 
-  private getDefaultAnalysis(): TechnicalAnalysis {
+  private getDefaultAnalysis(
+    primaryTimeframe: Timeframe,
+    candleSources: Record<string, CandleSource>,
+    candleCounts: Record<string, number>
+  ): TechnicalAnalysis {
     return {
       patterns: [],
-      indicators: {
-        rsi: 50,
-        macd: {
-          value: 0,
-          signal: 0,
-          histogram: 0
-        },
-        movingAverages: {
-          sma20: 0,
-          sma50: 0,
-          sma200: 0,
-          ema20: 0
-        }
-      },
+      candlestickPatterns: {},
+      divergences: {},
+      indicators: this.calculateIndicators([]),
       supportResistance: {
         support: [],
         resistance: [],
         strongestSupport: 0,
-        strongestResistance: 0
+        strongestResistance: 0,
+        zones: [],
+        fibonacci: null
       },
       trend: {
         shortTerm: 'neutral',
         mediumTerm: 'neutral',
         confidence: 0,
-        reasoning: 'Insufficient data for analysis'
+        reasoning: INSUFFICIENT_DATA_REASONING
       },
-      volumeAnalysis: {
-        trend: "unknown",
-        significance: 0,
-        unusualActivity: false,
-        insight: "Volume analysis not available for this token"
-      }
+      volumeAnalysis: this.getUnavailableVolumeAnalysis("Volume analysis not available for this token"),
+      relativeStrength: null,
+      primaryTimeframe,
+      candleCounts,
+      candleSources
     };
   }
 
-  clearCache(): void {
-    this.cache.clear();
+  clearCache(): Promise<void> {
+    return this.cache.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+// src/test-backtest.ts
+import { loadCandles, patternStrategy, rsiStrategy, runBacktest, trendStrategy } from './backtest';
+
+// `pnpm backtest -- <candles.json|candles.csv> [--fee 0.001] [--slippage 0.002] [--stop 0.05] [--target 0.1]`
+const USAGE = 'Usage: pnpm backtest -- <candles.json|candles.csv> [--fee n] [--slippage n] [--stop n] [--target n]';
+const [path, ...flags] = process.argv.slice(2);
+if (!path) {
+  throw new Error(USAGE);
+}
+
+// A missing or non-numeric value would turn every metric into NaN, so it is rejected
+function flag(name: string): number | undefined {
+  const index = flags.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+
+  const raw = flags[index + 1];
+  const value = raw === undefined || raw.trim() === '' ? NaN : Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`--${name} needs a number, got ${raw === undefined ? 'nothing' : `"${raw}"`}. ${USAGE}`);
+  }
+  return value;
+}
+
+// Parsed before loading the candles so a bad flag fails fast
+const options = {
+  feeRate: flag('fee'),
+  slippage: flag('slippage'),
+  stopLoss: flag('stop'),
+  takeProfit: flag('target')
+};
+
+async function testBacktest() {
+  const candles = await loadCandles(path);
+  console.log(`Loaded ${candles.length} candles from ${path}`);
+
+  for (const strategy of [trendStrategy({ period: 20 }), trendStrategy({ period: 50 }), rsiStrategy(), patternStrategy()]) {
+    const { metrics } = runBacktest(candles, strategy, options);
+    console.log(strategy.name, JSON.stringify(metrics, null, 2));
+  }
+}
+
+testBacktest().catch(error => {
+  console.error('Error during backtest:', error);
+  process.exitCode = 1;
+});
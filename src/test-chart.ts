@@ -0,0 +1,47 @@
+// src/test-chart.ts
+import { promises as fs } from 'fs';
+import dotenv from 'dotenv';
+import { TechnicalAnalysisService } from './services/technical';
+import { TimeframeSchema } from './types/technical';
+import { renderChart } from './chart';
+dotenv.config();
+
+// `pnpm chart -- <mint address> [out.svg] [--timeframe 1H] [--light]`
+const USAGE = 'Usage: pnpm chart -- <mint address> [out.svg] [--timeframe 1H] [--light]';
+const args = process.argv.slice(2);
+const timeframeIndex = args.indexOf('--timeframe');
+const timeframeValue = timeframeIndex === -1 ? '1H' : args[timeframeIndex + 1];
+if (!timeframeValue || timeframeValue.startsWith('--')) {
+  throw new Error(`--timeframe needs a value. ${USAGE}`);
+}
+const timeframe = TimeframeSchema.parse(timeframeValue);
+const [address, output = 'chart.svg'] = args.filter(
+  (arg, i) => !arg.startsWith('--') && (timeframeIndex === -1 || i !== timeframeIndex + 1)
+);
+if (!address) {
+  throw new Error(USAGE);
+}
+if (!process.env.BIRDEYE_API_KEY) {
+  throw new Error('Missing required environment variable: BIRDEYE_API_KEY');
+}
+
+async function testChart() {
+  const technical = new TechnicalAnalysisService(process.env.BIRDEYE_API_KEY!);
+  const analysis = await technical.analyzeTechnicals(address, {
+    includeSeries: true,
+    timeframes: [timeframe],
+    primaryTimeframe: timeframe
+  });
+
+  const candles = analysis.series?.[timeframe]?.candles ?? [];
+  await fs.writeFile(output, renderChart(candles, analysis, {
+    title: `${address.slice(0, 4)}…${address.slice(-4)} ${timeframe}`,
+    theme: args.includes('--light') ? 'light' : 'dark'
+  }));
+  console.log(`Wrote ${candles.length} ${timeframe} candles to ${output}`);
+}
+
+testChart().catch(error => {
+  console.error('Error rendering chart:', error);
+  process.exitCode = 1;
+});
@@ -1,10 +1,16 @@
 // src/test-news.ts
 import { NewsService } from './services/news';
+import { createFixtureSession, parseFixtureArgs } from './utils/fixtures';
+import { createConsoleLogger } from './utils/logger';
 import dotenv from 'dotenv';
 import { z } from 'zod';
 dotenv.config();
 
-if (!process.env.OPENAI_API_KEY) {
+// `pnpm news -- --record [dir]` / `pnpm news -- --replay [dir]`
+const fixtureArgs = parseFixtureArgs(process.argv.slice(2), 'fixtures/news');
+const fixtures = fixtureArgs && createFixtureSession(fixtureArgs.dir, fixtureArgs.mode);
+
+if (!process.env.OPENAI_API_KEY && fixtures?.mode !== 'replay') {
   throw new Error('Missing required environment variable: OPENAI_API_KEY');
 }
 
@@ -24,7 +30,11 @@ export const AINewsAnalysisSchema = z.object({
 
 async function testNewsAnalysis() {
   try {
-    const news = new NewsService(process.env.OPENAI_API_KEY!!);
+    const news = new NewsService(process.env.OPENAI_API_KEY || 'replay', {}, {
+      transport: fixtures?.transport,
+      clock: fixtures?.clock,
+      logger: createConsoleLogger({ format: 'text', level: 'debug' })
+    });
     
     // Test individual token news
     console.log('Testing news source analysis...');
@@ -1,20 +1,30 @@
 // src/test.ts
-import { TokenAnalyzer } from './index';
+import { TokenAnalyzer, TokenAnalyzerConfig, createConsoleLogger } from './index';
+import { createFixtureSession, parseFixtureArgs } from './utils/fixtures';
 import dotenv from 'dotenv';
 dotenv.config();
 
-// Validate environment
+// `pnpm token -- --record [dir]` captures every provider exchange,
+// `pnpm token -- --replay [dir]` reruns the analysis offline from the capture
+const fixtureArgs = parseFixtureArgs(process.argv.slice(2), 'fixtures/token');
+const fixtures = fixtureArgs && createFixtureSession(fixtureArgs.dir, fixtureArgs.mode);
+
+// Validate environment (replay never reaches a provider, so keys are optional)
 const requiredEnvVars = ['BIRDEYE_API_KEY', 'TWITTER_BEARER_KEY', 'OPENAI_API_KEY'] as const;
 const missingEnvVars = requiredEnvVars.filter(varName => !process.env[varName]);
-if (missingEnvVars.length > 0) {
+if (missingEnvVars.length > 0 && fixtures?.mode !== 'replay') {
   throw new Error(`Missing required environment variables: ${missingEnvVars.join(', ')}`);
 }
 
 async function testTokenLookup() {
-  const config = {
-    birdseyeApiKey: process.env.BIRDEYE_API_KEY!,
-    twitterApiKey: process.env.TWITTER_BEARER_KEY,
-    openaiApiKey: process.env.OPENAI_API_KEY,
+  const config: TokenAnalyzerConfig = {
+    birdseyeApiKey: process.env.BIRDEYE_API_KEY || 'replay',
+    twitterApiKey: process.env.TWITTER_BEARER_KEY || 'replay',
+    openaiApiKey: process.env.OPENAI_API_KEY || 'replay',
+    transport: fixtures?.transport,
+    clock: fixtures?.clock,
+    solanaRpcUrl: process.env.SOLANA_RPC_URL,
+    logger: createConsoleLogger({ format: 'text', level: 'debug' })
   };
 
   try {
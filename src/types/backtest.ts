@@ -0,0 +1,73 @@
+// src/types/backtest.ts
+import { PriceCandle } from './technical';
+
+export type StrategyAction = 'enter' | 'exit' | 'hold';
+
+/**
+ * Decides what to do at the close of the last candle it is given. The engine
+ * only ever passes candles up to the bar being evaluated, so a strategy
+ * cannot see the future.
+ */
+export interface Strategy {
+  name: string;
+  /** Candles to skip before the first decision, e.g. an indicator's warm-up */
+  warmup?: number;
+  decide(history: PriceCandle[], inPosition: boolean): StrategyAction;
+}
+
+export interface BacktestOptions {
+  /** Starting equity, defaults to 1000 */
+  initialCapital?: number;
+  /** Fee charged on the traded notional on each side, defaults to 0.001 (0.1%) */
+  feeRate?: number;
+  /** Adverse price move applied to every fill, defaults to 0.002 (0.2%) */
+  slippage?: number;
+  /** Exits once price falls this fraction below the entry, e.g. 0.05 */
+  stopLoss?: number;
+  /** Exits once price rises this fraction above the entry */
+  takeProfit?: number;
+  /** Bars per year for the annualized Sharpe ratio; inferred from the candle spacing when omitted */
+  periodsPerYear?: number;
+}
+
+export type ExitReason = 'signal' | 'stopLoss' | 'takeProfit' | 'end';
+
+export interface BacktestTrade {
+  entryTimestamp: number;
+  exitTimestamp: number;
+  /** Fill prices, including slippage */
+  entryPrice: number;
+  exitPrice: number;
+  /** Net of fees, as a fraction of the capital committed */
+  return: number;
+  pnl: number;
+  bars: number;
+  exitReason: ExitReason;
+}
+
+export interface BacktestMetrics {
+  trades: number;
+  /** Share of trades with a positive net return */
+  winRate: number;
+  /** Average net return per trade */
+  expectancy: number;
+  averageWin: number;
+  averageLoss: number;
+  /** Gross profit over gross loss; null when no trade lost money */
+  profitFactor: number | null;
+  totalReturn: number;
+  /** Largest peak-to-trough fall of the equity curve, as a fraction of the peak */
+  maxDrawdown: number;
+  /** Annualized, from per-bar equity returns with a zero risk-free rate */
+  sharpe: number;
+  /** Share of bars spent in a position */
+  exposure: number;
+}
+
+export interface BacktestResult {
+  strategy: string;
+  trades: BacktestTrade[];
+  /** Equity marked to each candle's close, aligned with the input candles */
+  equity: number[];
+  metrics: BacktestMetrics;
+}
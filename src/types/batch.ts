@@ -0,0 +1,41 @@
+// src/types/batch.ts
+import { CacheStore } from './cache';
+import { ErrorCode } from '../utils/errors';
+import { TokenAnalytics } from './token';
+
+/** A search query or mint address, or an already-resolved token */
+export type BatchInput = string | { address: string; symbol?: string | null; name?: string | null };
+
+export interface LlmUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated from the token counts and `LLM_PRICING` */
+  costUsd: number;
+}
+
+export interface BatchBudget {
+  maxLlmCalls?: number;
+  maxCostUsd?: number;
+}
+
+export interface BatchCheckpoint {
+  /** Identifies the batch; rerunning with the same id skips items already completed */
+  id: string;
+  /** Defaults to the analyzer's cache store */
+  store?: CacheStore;
+  /** How long (ms) completed items are kept, defaults to 24 hours */
+  ttl?: number;
+}
+
+export type BatchItemResult =
+  | { input: string; index: number; state: 'ok'; result: TokenAnalytics; usage: LlmUsage; resumed: boolean }
+  | { input: string; index: number; state: 'failed'; error: { code: ErrorCode; provider?: string; message: string }; usage: LlmUsage }
+  | { input: string; index: number; state: 'skipped'; reason: 'BUDGET_EXHAUSTED' };
+
+export interface BatchResult {
+  /** One entry per input, in input order */
+  items: BatchItemResult[];
+  usage: LlmUsage;
+  budgetExhausted: boolean;
+}
@@ -1,20 +1,108 @@
-export interface BirdeyeSearchItem {
-    type: string;
-    result: Array<{
-      address: string;
-      symbol: string;
-      name: string;
-      liquidity: number;
-      volume_24h_usd: number;
-      price: number;
-      last_trade_human_time: string;
-      verified: boolean;
-    }>;
-  }
-  
-  export interface BirdeyeSearchResponse {
-    success: boolean;
-    data?: {
-      items: BirdeyeSearchItem[];
-    };
-  }
\ No newline at end of file
+// src/types/birdeye.ts
+import { z } from 'zod';
+
+/**
+ * Every Birdeye endpoint wraps its payload in the same envelope.
+ */
+export const birdeyeEnvelope = <T extends z.ZodTypeAny>(data: T) =>
+  z.object({
+    success: z.boolean(),
+    data
+  });
+
+export const BirdeyeSearchTokenSchema = z.object({
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  liquidity: z.number().nullable().optional(),
+  volume_24h_usd: z.number().nullable().optional(),
+  price: z.number().nullable().optional(),
+  last_trade_human_time: z.string().nullable().optional(),
+  creation_time: z.string().nullable().optional(),
+  verified: z.boolean().nullable().optional()
+});
+
+export const BirdeyeSearchItemSchema = z.object({
+  type: z.string(),
+  result: z.array(BirdeyeSearchTokenSchema)
+});
+
+export const BirdeyeSearchDataSchema = z.object({
+  items: z.array(BirdeyeSearchItemSchema)
+});
+
+export const BirdeyeTokenMetadataSchema = z.object({
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number(),
+  extensions: z.record(z.unknown()).nullable().optional(),
+  logo_uri: z.string().nullable().optional(),
+  mint_authority: z.string().nullable().optional(),
+  freeze_authority: z.string().nullable().optional(),
+  verified: z.boolean().nullable().optional()
+});
+
+export const BirdeyeTokenMarketDataSchema = z.object({
+  address: z.string(),
+  price: z.number(),
+  liquidity: z.number(),
+  supply: z.number().nullable().optional(),
+  marketcap: z.number().nullable().optional(),
+  circulating_supply: z.number().nullable().optional(),
+  circulating_marketcap: z.number().nullable().optional(),
+  price_change_24h: z.number().nullable().optional(),
+  volume_24h: z.number().nullable().optional(),
+  holders: z.number().nullable().optional(),
+  verified: z.boolean().nullable().optional()
+});
+
+export const BirdeyeTrendingTokenSchema = z.object({
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number(),
+  rank: z.number().nullable().optional(),
+  liquidity: z.number().nullable().optional(),
+  volume24hUSD: z.number().nullable().optional(),
+  price: z.number().nullable().optional()
+});
+
+export const BirdeyeTrendingDataSchema = z.object({
+  updateUnixTime: z.number().optional(),
+  tokens: z.array(BirdeyeTrendingTokenSchema)
+});
+
+export const BirdeyePricePointSchema = z.object({
+  unixTime: z.number(),
+  value: z.number()
+});
+
+export const BirdeyePriceHistoryDataSchema = z.object({
+  items: z.array(BirdeyePricePointSchema)
+});
+
+export const BirdeyeOhlcvItemSchema = z.object({
+  unixTime: z.number(),
+  o: z.number(),
+  h: z.number(),
+  l: z.number(),
+  c: z.number(),
+  v: z.number()
+});
+
+export const BirdeyeOhlcvDataSchema = z.object({
+  items: z.array(BirdeyeOhlcvItemSchema)
+});
+
+export type BirdeyeSearchToken = z.infer<typeof BirdeyeSearchTokenSchema>;
+export type BirdeyeSearchItem = z.infer<typeof BirdeyeSearchItemSchema>;
+export type BirdeyeSearchData = z.infer<typeof BirdeyeSearchDataSchema>;
+export type BirdeyeTokenMetadata = z.infer<typeof BirdeyeTokenMetadataSchema>;
+export type BirdeyeTokenMarketData = z.infer<typeof BirdeyeTokenMarketDataSchema>;
+export type BirdeyeTrendingToken = z.infer<typeof BirdeyeTrendingTokenSchema>;
+export type BirdeyeTrendingData = z.infer<typeof BirdeyeTrendingDataSchema>;
+export type BirdeyePricePoint = z.infer<typeof BirdeyePricePointSchema>;
+export type BirdeyePriceHistoryData = z.infer<typeof BirdeyePriceHistoryDataSchema>;
+export type BirdeyeOhlcvItem = z.infer<typeof BirdeyeOhlcvItemSchema>;
+export type BirdeyeOhlcvData = z.infer<typeof BirdeyeOhlcvDataSchema>;
@@ -0,0 +1,31 @@
+// src/types/cache.ts
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** Epoch ms when the value was produced */
+  storedAt: number;
+  /** Epoch ms after which the store may evict the entry */
+  expiresAt: number;
+}
+
+/**
+ * Key/value backend shared by every service cache. Implementations only store
+ * and evict entries; freshness and revalidation are handled by `SectionCache`.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Removes every entry, or only those whose key starts with `prefix` */
+  clear(prefix?: string): Promise<void>;
+}
+
+export type CacheSection = 'analysis' | 'market' | 'technical' | 'social' | 'sentiment' | 'news';
+
+export interface CacheOptions {
+  store?: CacheStore;
+  /** Time-to-live in ms per section, defaults to 5 minutes */
+  ttl?: Partial<Record<CacheSection, number>>;
+  /** How long (ms) past its TTL a stale entry is still served while it is refreshed in the background */
+  staleWhileRevalidate?: number;
+}
@@ -0,0 +1,56 @@
+// src/types/chart.ts
+import { Timeframe } from './technical';
+
+export interface ChartTheme {
+  background: string;
+  text: string;
+  mutedText: string;
+  grid: string;
+  up: string;
+  down: string;
+  /** Overlay line colors */
+  sma20: string;
+  sma50: string;
+  sma200: string;
+  ema20: string;
+  rsi: string;
+  macd: string;
+  macdSignal: string;
+  support: string;
+  resistance: string;
+  bullish: string;
+  bearish: string;
+  neutral: string;
+}
+
+export interface ChartPanes {
+  /** Volume bars under the price pane, defaults to true */
+  volume?: boolean;
+  /** RSI(14) with the 30/70 bands, defaults to true */
+  rsi?: boolean;
+  /** MACD(12, 26, 9) line, signal and histogram, defaults to true */
+  macd?: boolean;
+}
+
+export interface ChartOptions {
+  /** Pixel size of the SVG, defaults to 960x640 */
+  width?: number;
+  height?: number;
+  /** Most recent candles drawn; earlier ones still feed the indicator warm-up. Defaults to 120 */
+  maxCandles?: number;
+  /** Heading in the top-left corner */
+  title?: string;
+  /**
+   * Prefix for the ids inside the SVG, so several charts inlined in one page
+   * do not clip each other. Defaults to one unique per render.
+   */
+  id?: string;
+  /** `dark` (default), `light` or a full custom theme */
+  theme?: 'dark' | 'light' | ChartTheme;
+  panes?: ChartPanes;
+  /**
+   * Timeframe whose candlestick signals and divergences are annotated,
+   * defaults to the analysis' primary timeframe
+   */
+  timeframe?: Timeframe;
+}
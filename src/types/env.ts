@@ -4,6 +4,7 @@ export const EnvSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   GROK_API_KEY: z.string().optional(),
   BIRDEYE_API_KEY: z.string().optional(),
+  SOLANA_RPC_URL: z.string().optional(),
 });
 
 export type Env = z.infer<typeof EnvSchema>;
\ No newline at end of file
@@ -0,0 +1,40 @@
+// src/types/events.ts
+import { NewsAnalysis } from './news';
+import { AnalysisSection, SectionStatus } from './status';
+import { TechnicalAnalysis } from './technical';
+import { MarketData, SentimentAnalysis, SocialMetrics, TokenAnalytics, TokenData } from './token';
+
+export interface SectionDataMap {
+  onchain: TokenData;
+  market: MarketData;
+  technical: TechnicalAnalysis;
+  social: SocialMetrics;
+  sentiment: SentimentAnalysis;
+  news: NewsAnalysis;
+}
+
+export interface ResolutionEvent {
+  type: 'resolution';
+  address: string;
+  symbol: string | null;
+  name: string | null;
+}
+
+/**
+ * Emitted once per section as soon as it settles; `data` is present when
+ * the section state is `ok` or `degraded`.
+ */
+export type SectionEvent = {
+  [S in AnalysisSection]: {
+    type: S;
+    status: SectionStatus;
+    data?: SectionDataMap[S];
+  };
+}[AnalysisSection];
+
+export interface CompleteEvent {
+  type: 'complete';
+  result: TokenAnalytics;
+}
+
+export type AnalysisEvent = ResolutionEvent | SectionEvent | CompleteEvent;
@@ -0,0 +1,74 @@
+// src/types/indicators.ts
+import { z } from 'zod';
+import { PriceCandleSchema, TechnicalIndicators } from './technical';
+
+/** Rolling window of an SMA: `values` is a ring buffer whose oldest entry is at `next` once full */
+export const SmaWindowStateSchema = z.object({
+  period: z.number().int().positive(),
+  values: z.array(z.number()),
+  next: z.number().int().nonnegative(),
+  sum: z.number()
+});
+
+/** EMA or Wilder smoothing; `value` is null until `period` inputs have seeded it */
+export const SmoothingStateSchema = z.object({
+  period: z.number().int().positive(),
+  count: z.number().int().nonnegative(),
+  seed: z.number(),
+  value: z.number().nullable()
+});
+
+/**
+ * Every incremental indicator keeps the latest candle apart from its
+ * committed state, so a candle that is still forming can be revised.
+ */
+const pending = PriceCandleSchema.nullable();
+
+export const IncrementalSmaStateSchema = z.object({
+  type: z.literal('sma'),
+  window: SmaWindowStateSchema,
+  pending
+});
+
+export const IncrementalEmaStateSchema = z.object({
+  type: z.literal('ema'),
+  smoothing: SmoothingStateSchema,
+  pending
+});
+
+export const IncrementalRsiStateSchema = z.object({
+  type: z.literal('rsi'),
+  previousClose: z.number().nullable(),
+  gains: SmoothingStateSchema,
+  losses: SmoothingStateSchema,
+  pending
+});
+
+export const IncrementalMacdStateSchema = z.object({
+  type: z.literal('macd'),
+  fast: SmoothingStateSchema,
+  slow: SmoothingStateSchema,
+  signal: SmoothingStateSchema,
+  pending
+});
+
+export const IncrementalIndicatorsStateSchema = z.object({
+  type: z.literal('indicators'),
+  sma20: IncrementalSmaStateSchema,
+  sma50: IncrementalSmaStateSchema,
+  sma200: IncrementalSmaStateSchema,
+  ema20: IncrementalEmaStateSchema,
+  rsi: IncrementalRsiStateSchema,
+  macd: IncrementalMacdStateSchema
+});
+
+export type SmaWindowState = z.infer<typeof SmaWindowStateSchema>;
+export type SmoothingState = z.infer<typeof SmoothingStateSchema>;
+export type IncrementalSmaState = z.infer<typeof IncrementalSmaStateSchema>;
+export type IncrementalEmaState = z.infer<typeof IncrementalEmaStateSchema>;
+export type IncrementalRsiState = z.infer<typeof IncrementalRsiStateSchema>;
+export type IncrementalMacdState = z.infer<typeof IncrementalMacdStateSchema>;
+export type IncrementalIndicatorsState = z.infer<typeof IncrementalIndicatorsStateSchema>;
+
+/** The indicators `IncrementalIndicators` keeps current, in the shape of `TechnicalIndicators` */
+export type StreamingIndicatorValues = Pick<TechnicalIndicators, 'rsi' | 'macd' | 'movingAverages'>;
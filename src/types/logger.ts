@@ -0,0 +1,16 @@
+// src/types/logger.ts
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Minimal structured logger. Adapters for pino, winston or similar only need
+ * to map these four methods.
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
@@ -0,0 +1,44 @@
+// src/types/resolution.ts
+
+export interface CandidateScoreBreakdown {
+  /** Each component is in [0, 1] before weighting */
+  match: number;
+  verified: number;
+  liquidity: number;
+  volume: number;
+  age: number;
+}
+
+export interface TokenCandidate {
+  address: string;
+  symbol: string;
+  name: string;
+  liquidity: number;
+  volume24h: number;
+  price: number;
+  verified: boolean;
+  createdAt: Date | null;
+  /** Weighted sum of `breakdown`, in [0, 1] */
+  score: number;
+  breakdown: CandidateScoreBreakdown;
+}
+
+export interface ResolveOptions {
+  /** Throw `AmbiguousTokenError` instead of picking the top candidate when it does not clearly win */
+  strict?: boolean;
+  /** Minimum score lead the top candidate needs over the runner-up, defaults to 0.1 */
+  minScoreGap?: number;
+  /** How many search results to rank, defaults to 20 */
+  limit?: number;
+}
+
+export interface TokenResolution {
+  query: string;
+  address: string;
+  symbol: string | null;
+  name: string | null;
+  /** Ranked best first; empty when the query was already a mint address */
+  candidates: TokenCandidate[];
+  /** True when the top candidate's lead is below `minScoreGap` */
+  ambiguous: boolean;
+}
@@ -0,0 +1,28 @@
+// src/types/service.ts
+import { CacheOptions } from './cache';
+import { Logger } from './logger';
+
+/**
+ * Signature of the HTTP transport used by every provider call. It matches the
+ * global `fetch`, so a stand-in server client or recorder can be dropped in.
+ */
+export type HttpTransport = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface ProviderBaseUrls {
+  birdeye?: string;
+  twitter?: string;
+  openai?: string;
+}
+
+/** Returns the current time in epoch milliseconds, like `Date.now` */
+export type Clock = () => number;
+
+export interface ServiceOptions {
+  transport?: HttpTransport;
+  baseUrls?: ProviderBaseUrls;
+  clock?: Clock;
+  cache?: CacheOptions;
+  logger?: Logger;
+  /** Solana JSON-RPC endpoint; when set, mint data is read on-chain instead of from Birdeye */
+  solanaRpcUrl?: string;
+}
@@ -0,0 +1,48 @@
+// src/types/solana.ts
+import { z } from 'zod';
+
+export const SolanaRpcErrorSchema = z.object({
+  code: z.number(),
+  message: z.string()
+});
+
+/**
+ * JSON-RPC 2.0 response: `result` on success, `error` otherwise.
+ */
+export const solanaRpcEnvelope = <T extends z.ZodTypeAny>(result: T) =>
+  z.object({
+    jsonrpc: z.literal('2.0'),
+    id: z.union([z.number(), z.string()]).nullable(),
+    result: result.optional(),
+    error: SolanaRpcErrorSchema.optional()
+  });
+
+export const SolanaAccountInfoSchema = z.object({
+  context: z.object({ slot: z.number() }),
+  value: z.object({
+    /** Account data requested with `encoding: 'base64'` */
+    data: z.tuple([z.string(), z.literal('base64')]),
+    executable: z.boolean(),
+    lamports: z.number(),
+    owner: z.string()
+  }).nullable()
+});
+
+export type SolanaAccountInfo = z.infer<typeof SolanaAccountInfoSchema>;
+
+/**
+ * An SPL Token or Token-2022 mint account decoded from its raw bytes.
+ */
+export interface MintAccount {
+  address: string;
+  /** Owning token program, SPL Token or Token-2022 */
+  programId: string;
+  /** Raw supply in base units, exact */
+  supply: bigint;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  isInitialized: boolean;
+  /** Slot the account was read at */
+  slot: number;
+}
@@ -0,0 +1,28 @@
+// src/types/status.ts
+import { z } from 'zod';
+
+export const SectionStateSchema = z.enum(['ok', 'skipped', 'failed', 'degraded']);
+
+export const SectionStatusSchema = z.object({
+  state: SectionStateSchema,
+  /** Upstream service the section depends on, or the one that failed */
+  provider: z.string().optional(),
+  /** Stable error code when the section failed or degraded */
+  errorCode: z.string().optional(),
+  message: z.string().optional(),
+  durationMs: z.number().optional()
+});
+
+export const AnalysisStatusSchema = z.object({
+  onchain: SectionStatusSchema,
+  market: SectionStatusSchema,
+  technical: SectionStatusSchema,
+  social: SectionStatusSchema,
+  sentiment: SectionStatusSchema,
+  news: SectionStatusSchema
+});
+
+export type SectionState = z.infer<typeof SectionStateSchema>;
+export type SectionStatus = z.infer<typeof SectionStatusSchema>;
+export type AnalysisStatus = z.infer<typeof AnalysisStatusSchema>;
+export type AnalysisSection = keyof AnalysisStatus;
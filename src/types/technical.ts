@@ -1,4 +1,4 @@
-// types/technical.ts
+// src/types/technical.ts
 import { z } from 'zod';
 
 export const PriceCandleSchema = z.object({
@@ -10,44 +10,206 @@ export const PriceCandleSchema = z.object({
   volume: z.number()
 });
 
+/**
+ * `ohlcv` candles come from Birdeye's OHLCV endpoint. `synthetic` candles are
+ * a fallback built from consecutive price points: open/close are the two
+ * prices, high/low their max/min, and volume is always 0.
+ */
+export const CandleSourceSchema = z.enum(['ohlcv', 'synthetic']);
+
+// Birdeye candle intervals, see `TIMEFRAME_SECONDS`
+export const TimeframeSchema = z.enum(['1m', '3m', '5m', '15m', '30m', '1H', '2H', '4H', '6H', '8H', '12H', '1D', '3D', '1W']);
+
+/**
+ * Latest indicator values on the primary timeframe. Values are null when
+ * there were too few candles to compute them, and their names are listed
+ * in `insufficientData`.
+ */
 export const TechnicalIndicatorsSchema = z.object({
-  rsi: z.number(),
+  rsi: z.number().nullable(),
   macd: z.object({
     value: z.number(),
     signal: z.number(),
     histogram: z.number()
-  }),
+  }).nullable(),
   movingAverages: z.object({
-    sma20: z.number(),
-    sma50: z.number(),
-    sma200: z.number(),
-    ema20: z.number()
-  })
+    sma20: z.number().nullable(),
+    sma50: z.number().nullable(),
+    sma200: z.number().nullable(),
+    ema20: z.number().nullable()
+  }),
+  bollingerBands: z.object({
+    upper: z.number(),
+    middle: z.number(),
+    lower: z.number(),
+    bandwidth: z.number()
+  }).nullable(),
+  atr: z.number().nullable(),
+  stochastic: z.object({
+    k: z.number(),
+    d: z.number()
+  }).nullable(),
+  adx: z.object({
+    adx: z.number(),
+    plusDI: z.number(),
+    minusDI: z.number()
+  }).nullable(),
+  obv: z.number().nullable(),
+  vwap: z.number().nullable(),
+  ichimoku: z.object({
+    conversion: z.number(),
+    base: z.number(),
+    spanA: z.number(),
+    spanB: z.number()
+  }).nullable(),
+  parabolicSar: z.object({
+    value: z.number(),
+    direction: z.enum(['up', 'down'])
+  }).nullable(),
+  /** Indicators left null because the primary timeframe had too few candles, e.g. `['sma200']` */
+  insufficientData: z.array(z.string())
+});
+
+/**
+ * A price band where swing highs/lows cluster. `strength` combines the
+ * number of touches, how recent the last one was and the volume traded
+ * in the band.
+ */
+export const PriceZoneSchema = z.object({
+  low: z.number(),
+  high: z.number(),
+  /** Average price of the swings in the zone */
+  price: z.number(),
+  type: z.enum(['support', 'resistance']),
+  touches: z.number(),
+  lastTouchTimestamp: z.number(),
+  volume: z.number(),
+  /** Whether the band holds a high-volume node of the volume profile */
+  highVolumeNode: z.boolean(),
+  strength: z.number().min(0).max(1)
+});
+
+export const FibonacciLevelSchema = z.object({
+  ratio: z.number(),
+  price: z.number()
+});
+
+/** Retracement and extension levels of the dominant (lowest low to highest high) swing */
+export const FibonacciLevelsSchema = z.object({
+  direction: z.enum(['up', 'down']),
+  swingHigh: z.number(),
+  swingLow: z.number(),
+  startTimestamp: z.number(),
+  endTimestamp: z.number(),
+  retracements: z.array(FibonacciLevelSchema),
+  /** Only positive prices, so a deep down swing can have fewer than three */
+  extensions: z.array(FibonacciLevelSchema)
 });
 
 export const SupportResistanceSchema = z.object({
+  /** Zone prices below the last close, strongest first */
   support: z.array(z.number()),
+  /** Zone prices above the last close, strongest first */
   resistance: z.array(z.number()),
   strongestSupport: z.number(),
-  strongestResistance: z.number()
+  strongestResistance: z.number(),
+  zones: z.array(PriceZoneSchema),
+  fibonacci: FibonacciLevelsSchema.nullable()
 });
 
 export const ChartPatternSchema = z.object({
   name: z.string(),
   confidence: z.number().min(0).max(1),
   implication: z.enum(['bullish', 'bearish', 'neutral']),
-  priceTarget: z.number().nullable()
+  priceTarget: z.number().nullable(),
+  /** Timestamps of the first and last candle the pattern spans (the breakout candle once confirmed) */
+  startTimestamp: z.number(),
+  endTimestamp: z.number()
+});
+
+export const CandlestickSignalSchema = z.object({
+  name: z.string(),
+  /** Timestamp of the candle that completes the signal */
+  timestamp: z.number(),
+  implication: z.enum(['bullish', 'bearish', 'neutral']),
+  /** Support or resistance level the signal formed at, if any */
+  nearLevel: z.enum(['support', 'resistance']).nullable(),
+  level: z.number().nullable()
+});
+
+/**
+ * Price and an oscillator disagreeing between two consecutive swing highs
+ * (bearish) or swing lows (bullish). `regular` warns of a reversal,
+ * `hidden` points to the trend continuing.
+ */
+export const DivergenceSchema = z.object({
+  indicator: z.enum(['rsi', 'macd']),
+  type: z.enum(['regular', 'hidden']),
+  direction: z.enum(['bullish', 'bearish']),
+  startTimestamp: z.number(),
+  endTimestamp: z.number(),
+  priceStart: z.number(),
+  priceEnd: z.number(),
+  indicatorStart: z.number(),
+  indicatorEnd: z.number(),
+  strength: z.number().min(0).max(1)
 });
 
 export const VolumeAnalysisSchema = z.object({
-  trend: z.string(),
+  /** Recent volume against its moving average; `unknown` when candles carry no volume */
+  trend: z.enum(['rising', 'falling', 'stable', 'unknown']),
   significance: z.number().min(0).max(1),
+  /** Latest candle's volume divided by the moving average before it */
+  relativeVolume: z.number(),
+  /** Standard deviations of the latest volume from that average */
+  zScore: z.number(),
   unusualActivity: z.boolean(),
+  obvTrend: z.enum(['rising', 'falling', 'flat']),
+  vwap: z.number(),
+  /** Whether OBV moved with price (`confirmed`) or against it (`divergent`) */
+  confirmation: z.enum(['confirmed', 'divergent', 'neutral']),
   insight: z.string()
 });
 
+/**
+ * The token against a benchmark (SOL unless configured) on the primary
+ * timeframe. `beta` and `correlation` use the last 30 candle returns;
+ * `performance` holds the 24h and 7d returns the history covers.
+ */
+export const RelativeStrengthSchema = z.object({
+  /** Benchmark mint address */
+  benchmark: z.string(),
+  benchmarkSymbol: z.string().nullable(),
+  /** Latest token close divided by the benchmark's */
+  ratio: z.number(),
+  ratioTrend: z.enum(['rising', 'falling', 'flat']),
+  beta: z.number().nullable(),
+  correlation: z.number().nullable(),
+  performance: z.record(z.string(), z.object({
+    token: z.number(),
+    benchmark: z.number(),
+    /** Token return minus benchmark return */
+    outperformance: z.number()
+  })),
+  insight: z.string()
+});
+
+/**
+ * One timeframe's candles with every indicator series aligned to them:
+ * `indicators.rsi[i]` is the RSI at `timestamps[i]`, null while warming up.
+ */
+export const TimeframeSeriesSchema = z.object({
+  timestamps: z.array(z.number()),
+  candles: z.array(PriceCandleSchema),
+  indicators: z.record(z.string(), z.array(z.number().nullable()))
+});
+
 export const TechnicalAnalysisSchema = z.object({
   patterns: z.array(ChartPatternSchema),
+  /** Recent candlestick signals per timeframe; empty for timeframes with synthetic candles */
+  candlestickPatterns: z.record(z.string(), z.array(CandlestickSignalSchema)),
+  /** Recent RSI and MACD divergences per timeframe, on the primary timeframe and every longer configured one */
+  divergences: z.record(z.string(), z.array(DivergenceSchema)),
   indicators: TechnicalIndicatorsSchema,
   supportResistance: SupportResistanceSchema,
   trend: z.object({
@@ -56,12 +218,43 @@ export const TechnicalAnalysisSchema = z.object({
     confidence: z.number().min(0).max(1),
     reasoning: z.string()
   }),
-  volumeAnalysis: VolumeAnalysisSchema
+  volumeAnalysis: VolumeAnalysisSchema,
+  /** Null when disabled, or when the benchmark candles could not be fetched */
+  relativeStrength: RelativeStrengthSchema.nullable(),
+  /** Timeframe the indicators, chart patterns, zones and volume analysis are computed on */
+  primaryTimeframe: TimeframeSchema,
+  /** Candles received for each timeframe */
+  candleCounts: z.record(z.string(), z.number()),
+  /** Candle source used for each timeframe, e.g. `{ '1H': 'ohlcv' }` */
+  candleSources: z.record(z.string(), CandleSourceSchema),
+  /** Per-timeframe candles and indicator series, only when `includeSeries` was requested */
+  series: z.record(z.string(), TimeframeSeriesSchema).optional()
 });
 
 export type PriceCandle = z.infer<typeof PriceCandleSchema>;
+export type Timeframe = z.infer<typeof TimeframeSchema>;
+export type CandleSource = z.infer<typeof CandleSourceSchema>;
 export type TechnicalIndicators = z.infer<typeof TechnicalIndicatorsSchema>;
+export type PriceZone = z.infer<typeof PriceZoneSchema>;
+export type FibonacciLevels = z.infer<typeof FibonacciLevelsSchema>;
 export type SupportResistance = z.infer<typeof SupportResistanceSchema>;
 export type ChartPattern = z.infer<typeof ChartPatternSchema>;
+export type CandlestickSignal = z.infer<typeof CandlestickSignalSchema>;
+export type Divergence = z.infer<typeof DivergenceSchema>;
 export type VolumeAnalysis = z.infer<typeof VolumeAnalysisSchema>;
-export type TechnicalAnalysis = z.infer<typeof TechnicalAnalysisSchema>;
\ No newline at end of file
+export type RelativeStrength = z.infer<typeof RelativeStrengthSchema>;
+export type TimeframeSeries = z.infer<typeof TimeframeSeriesSchema>;
+export type TechnicalAnalysis = z.infer<typeof TechnicalAnalysisSchema>;
+
+export interface TechnicalAnalysisOptions {
+  /** Adds `series` with the candles and indicator history of every timeframe, for charting */
+  includeSeries?: boolean;
+  /** Candle intervals to analyze, defaults to 15m, 1H and 4H */
+  timeframes?: Timeframe[];
+  /** Candles to request per timeframe. Raised to at least `MIN_INDICATOR_CANDLES` so sma200 can fill; defaults to 300 */
+  lookback?: number;
+  /** Timeframe for indicators, chart patterns, zones and volume; defaults to 1H (added to `timeframes` if missing) */
+  primaryTimeframe?: Timeframe;
+  /** Mint to measure relative strength against, defaults to SOL; `false` skips it */
+  benchmark?: string | false;
+}
\ No newline at end of file
@@ -1,6 +1,9 @@
 // src/types/token.ts
 import { z } from "zod";
 import type { PublicKey } from "@solana/web3.js";
+import { AnalysisStatusSchema } from "./status";
+import { TechnicalAnalysisSchema } from "./technical";
+import { NewsAnalysisSchema } from "./news";
 
 export const TokenDataSchema = z.object({
  mint: z.any() as unknown as z.ZodType<PublicKey>,
@@ -15,44 +18,8 @@ export const TokenDataSchema = z.object({
   freezeAuthority: z.string().nullable(),
   verified: z.boolean(),
   extensions: z.any(),
-  technicalAnalysis: z.object({
-    indicators: z.object({
-      rsi: z.number(),
-      macd: z.object({
-        value: z.number(),
-        signal: z.number(),
-        histogram: z.number()
-      }),
-      movingAverages: z.object({
-        sma20: z.number(),
-        sma50: z.number(),
-        sma200: z.number(),
-        ema20: z.number()
-      })
-    }),
-    patterns: z.array(z.object({
-      name: z.string(),
-      confidence: z.number(),
-      implication: z.enum(['bullish', 'bearish', 'neutral']),
-      priceTarget: z.number().optional()
-    })),
-    supportResistance: z.object({
-      support: z.array(z.number()),
-      resistance: z.array(z.number())
-    }),
-    trend: z.object({
-      shortTerm: z.enum(['bullish', 'bearish', 'neutral']),
-      mediumTerm: z.enum(['bullish', 'bearish', 'neutral']),
-      confidence: z.number(),
-      reasoning: z.string()
-    }),
-    volumeAnalysis: z.object({
-      trend: z.string(),
-      significance: z.number(),
-      unusualActivity: z.boolean(),
-      insight: z.string()
-    })
-  }).optional()
+  /** Where decimals, supply and authorities came from: the mint account over RPC, or Birdeye */
+  source: z.enum(['rpc', 'birdeye'])
 });
 
 export const TweetSchema = z.object({
@@ -131,37 +98,13 @@ export const MarketDataSchema = z.object({
 export const TokenAnalyticsSchema = z.object({
   address: z.string(),
   onChainData: TokenDataSchema,
-  market: MarketDataSchema,
+  market: MarketDataSchema.optional(),
   socialMetrics: SocialMetricsSchema.optional(),
   sentiment: SentimentAnalysisSchema.optional(),
   lastUpdated: z.date(),
-  technicalAnalysis: z.object({
-    indicators: z.object({
-      rsi: z.number(),
-      macd: z.object({
-        value: z.number(),
-        signal: z.number(),
-        histogram: z.number()
-      }),
-      movingAverages: z.object({
-        sma20: z.number(),
-        sma50: z.number(),
-        sma200: z.number(),
-        ema20: z.number()
-      })
-    }),
-    patterns: z.array(z.object({
-      name: z.string(),
-      confidence: z.number(),
-      implication: z.enum(['bullish', 'bearish', 'neutral']),
-      priceTarget: z.number().optional()
-    })),
-    supportResistance: z.object({
-      support: z.array(z.number()),
-      resistance: z.array(z.number())
-    })
-  }).optional(),
-
+  status: AnalysisStatusSchema,
+  technicalAnalysis: TechnicalAnalysisSchema.optional(),
+  news: NewsAnalysisSchema.optional()
 });
 
 export interface MarketDataInput {
@@ -0,0 +1,20 @@
+// src/utils/amount.ts
+
+/**
+ * Converts a UI amount such as Birdeye's `supply` to base units. The digits
+ * of the number's shortest decimal form are shifted as a string, since
+ * multiplying by `10 ** decimals` in floating point corrupts the low digits
+ * of large supplies. Fractions beyond `decimals` are truncated.
+ */
+export function toRawAmount(value: number, decimals: number): bigint {
+  if (!Number.isFinite(value) || value <= 0) return BigInt(0);
+
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const digits = whole + fraction;
+  const shift = Number(exponent) + decimals - fraction.length;
+
+  return shift >= 0
+    ? BigInt(digits) * BigInt(10) ** BigInt(shift)
+    : BigInt(digits.slice(0, shift) || '0');
+}
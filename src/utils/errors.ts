@@ -0,0 +1,156 @@
+// src/utils/errors.ts
+import OpenAI from 'openai';
+import { ZodIssue } from 'zod';
+import { TokenCandidate } from '../types/resolution';
+
+export type ErrorCode =
+  | 'RATE_LIMITED'
+  | 'PROVIDER_AUTH'
+  | 'PROVIDER_ERROR'
+  | 'SCHEMA_MISMATCH'
+  | 'TOKEN_NOT_FOUND'
+  | 'AMBIGUOUS_TOKEN'
+  | 'UNKNOWN';
+
+/**
+ * Base class for every error the analyzer raises on purpose. `code` is stable
+ * and safe to branch on; `provider` names the upstream service when one is involved.
+ */
+export class TokenAnalyzerError extends Error {
+  constructor(
+    message: string,
+    readonly code: ErrorCode,
+    readonly provider?: string
+  ) {
+    super(message);
+    this.name = 'TokenAnalyzerError';
+  }
+}
+
+/**
+ * A provider answered with a non-success HTTP status.
+ */
+export class ProviderError extends TokenAnalyzerError {
+  constructor(
+    provider: string,
+    message: string,
+    readonly status?: number,
+    code: ErrorCode = 'PROVIDER_ERROR'
+  ) {
+    super(message, code, provider);
+    this.name = 'ProviderError';
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  constructor(
+    provider: string,
+    message: string,
+    /** Milliseconds the provider asked us to wait, when it said */
+    readonly retryAfterMs?: number
+  ) {
+    super(provider, message, 429, 'RATE_LIMITED');
+    this.name = 'RateLimitError';
+  }
+}
+
+export class ProviderAuthError extends ProviderError {
+  constructor(provider: string, message: string, status?: number) {
+    super(provider, message, status, 'PROVIDER_AUTH');
+    this.name = 'ProviderAuthError';
+  }
+}
+
+/**
+ * Thrown when a provider response parses as JSON but does not have the shape
+ * the package relies on, e.g. after a field is renamed upstream.
+ */
+export class SchemaMismatchError extends TokenAnalyzerError {
+  constructor(
+    provider: string,
+    readonly endpoint: string,
+    readonly issues: ZodIssue[]
+  ) {
+    super(
+      `${provider} ${endpoint} response did not match the expected schema: ` +
+      issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; '),
+      'SCHEMA_MISMATCH',
+      provider
+    );
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+export class TokenNotFoundError extends TokenAnalyzerError {
+  constructor(readonly query: string) {
+    super(`No token found matching: ${query}`, 'TOKEN_NOT_FOUND');
+    this.name = 'TokenNotFoundError';
+  }
+}
+
+/**
+ * Thrown by strict resolution when no search candidate clearly outranks the
+ * others. `candidates` is ranked best first so callers can ask the user to pick.
+ */
+export class AmbiguousTokenError extends TokenAnalyzerError {
+  constructor(
+    readonly query: string,
+    readonly candidates: TokenCandidate[]
+  ) {
+    super(
+      `Ambiguous token "${query}", candidates: ` +
+      candidates
+        .slice(0, 5)
+        .map(candidate => `${candidate.symbol} (${candidate.name}) ${candidate.address} score ${candidate.score.toFixed(2)}`)
+        .join('; '),
+      'AMBIGUOUS_TOKEN'
+    );
+    this.name = 'AmbiguousTokenError';
+  }
+}
+
+/**
+ * Maps a non-ok HTTP response to the matching error class.
+ */
+export function providerErrorFromResponse(
+  provider: string,
+  response: Response,
+  detail?: string
+): ProviderError {
+  const message = `${provider} API error: ${response.status}${detail ? ` - ${detail}` : ''}`;
+
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    return new RateLimitError(provider, message, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new ProviderAuthError(provider, message, response.status);
+  }
+  return new ProviderError(provider, message, response.status);
+}
+
+/**
+ * Normalizes anything thrown by a section into a code/provider pair,
+ * including errors raised by the OpenAI SDK.
+ */
+export function describeError(error: unknown): { code: ErrorCode; provider?: string; message: string } {
+  if (error instanceof TokenAnalyzerError) {
+    return { code: error.code, provider: error.provider, message: error.message };
+  }
+
+  if (error instanceof OpenAI.APIError) {
+    const code: ErrorCode =
+      error.status === 429 ? 'RATE_LIMITED' :
+      error.status === 401 || error.status === 403 ? 'PROVIDER_AUTH' :
+      'PROVIDER_ERROR';
+    return { code, provider: 'openai', message: error.message };
+  }
+
+  return {
+    code: 'UNKNOWN',
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
@@ -0,0 +1,180 @@
+// src/utils/fixtures.ts
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Clock, HttpTransport } from '../types/service';
+import { defaultTransport } from './http';
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureSession {
+  mode: FixtureMode;
+  dir: string;
+  transport: HttpTransport;
+  clock: Clock;
+}
+
+interface FixtureManifest {
+  recordedAt: number;
+}
+
+interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    body: string | null;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Creates a transport and a frozen clock backed by a fixture directory.
+ *
+ * In `record` mode every exchange goes through `inner` and is written to `dir`;
+ * in `replay` mode exchanges are served from `dir` and nothing touches the network.
+ * The clock is pinned to the recording time in both modes so time ranges in
+ * request URLs and timestamps in the output line up between runs.
+ */
+export function createFixtureSession(
+  dir: string,
+  mode: FixtureMode,
+  inner: HttpTransport = defaultTransport
+): FixtureSession {
+  const manifestPath = join(dir, MANIFEST_FILE);
+  let manifest: FixtureManifest;
+
+  if (mode === 'record') {
+    mkdirSync(dir, { recursive: true });
+    manifest = { recordedAt: Date.now() };
+    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  } else {
+    if (!existsSync(manifestPath)) {
+      throw new Error(`No fixture manifest found in ${dir}; record a run first`);
+    }
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf8')) as FixtureManifest;
+  }
+
+  return {
+    mode,
+    dir,
+    transport: mode === 'record' ? recordingTransport(dir, inner) : replayTransport(dir),
+    clock: () => manifest.recordedAt
+  };
+}
+
+/**
+ * Reads `--record [dir]` / `--replay [dir]` from script arguments.
+ */
+export function parseFixtureArgs(
+  argv: string[],
+  defaultDir: string
+): { mode: FixtureMode; dir: string } | null {
+  for (const mode of ['record', 'replay'] as const) {
+    const index = argv.indexOf(`--${mode}`);
+    if (index === -1) continue;
+
+    const next = argv[index + 1];
+    return { mode, dir: next && !next.startsWith('--') ? next : defaultDir };
+  }
+  return null;
+}
+
+function recordingTransport(dir: string, inner: HttpTransport): HttpTransport {
+  return async (url, init) => {
+    const response = await inner(url, init);
+    const body = await response.clone().text();
+
+    const exchange: RecordedExchange = {
+      request: {
+        method: getMethod(init),
+        url,
+        body: getBody(init)
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body
+      }
+    };
+
+    writeFileSync(join(dir, fixtureFileName(url, init)), JSON.stringify(exchange, null, 2));
+    return response;
+  };
+}
+
+function replayTransport(dir: string): HttpTransport {
+  return async (url, init) => {
+    const path = join(dir, fixtureFileName(url, init));
+    if (!existsSync(path)) {
+      throw new Error(`No recorded fixture for ${getMethod(init)} ${url}`);
+    }
+
+    const { response } = JSON.parse(readFileSync(path, 'utf8')) as RecordedExchange;
+    const hasBody = response.status !== 204 && response.status !== 304;
+
+    return new Response(hasBody ? response.body : null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  };
+}
+
+function fixtureFileName(url: string, init?: RequestInit): string {
+  const hash = createHash('sha256')
+    .update(`${getMethod(init)} ${url}\n${normalizeBody(getBody(init)) || ''}`)
+    .digest('hex')
+    .slice(0, 16);
+
+  const { hostname, pathname } = new URL(url);
+  const slug = `${hostname}${pathname}`
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60);
+
+  return `${slug}-${hash}.json`;
+}
+
+/**
+ * JSON-RPC bodies carry a per-process incrementing `id`, which is dropped so
+ * the same call maps to the same fixture whatever ran before it.
+ */
+function normalizeBody(body: string | null): string | null {
+  if (body === null) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
+  }
+
+  const withoutId = (payload: unknown): unknown => {
+    if (!payload || typeof payload !== 'object' || !('jsonrpc' in payload)) return payload;
+    const { id, ...rest } = payload as Record<string, unknown>;
+    return rest;
+  };
+
+  // Other bodies are hashed as sent, so existing recordings keep their names
+  const payloads = Array.isArray(parsed) ? parsed : [parsed];
+  if (!payloads.some(payload => payload && typeof payload === 'object' && 'jsonrpc' in payload)) return body;
+  return JSON.stringify(Array.isArray(parsed) ? parsed.map(withoutId) : withoutId(parsed));
+}
+
+function getMethod(init?: RequestInit): string {
+  return (init?.method || 'GET').toUpperCase();
+}
+
+function getBody(init?: RequestInit): string | null {
+  if (init?.body === undefined || init.body === null) return null;
+  if (typeof init.body === 'string') return init.body;
+  throw new Error('Fixture transport only supports string request bodies');
+}
@@ -0,0 +1,60 @@
+// src/utils/http.ts
+import OpenAI from 'openai';
+import type { Fetch } from 'openai/core';
+import { DEFAULT_BASE_URLS } from '../constants/providers';
+import { Clock, HttpTransport, ProviderBaseUrls, ServiceOptions } from '../types/service';
+import { Logger } from '../types/logger';
+import { silentLogger } from './logger';
+import { recordOpenAIUsage } from './usage';
+
+export const defaultTransport: HttpTransport = (url, init) => fetch(url, init);
+
+export interface ResolvedServiceOptions {
+  transport: HttpTransport;
+  baseUrls: Required<ProviderBaseUrls>;
+  clock: Clock;
+  logger: Logger;
+}
+
+export function resolveServiceOptions(options: ServiceOptions = {}): ResolvedServiceOptions {
+  // Per key, so an explicit `undefined` (e.g. an unset env var) keeps the default
+  const baseUrls = options.baseUrls || {};
+
+  return {
+    transport: options.transport || defaultTransport,
+    baseUrls: {
+      birdeye: trimTrailingSlash(baseUrls.birdeye ?? DEFAULT_BASE_URLS.birdeye),
+      twitter: trimTrailingSlash(baseUrls.twitter ?? DEFAULT_BASE_URLS.twitter),
+      openai: trimTrailingSlash(baseUrls.openai ?? DEFAULT_BASE_URLS.openai)
+    },
+    clock: options.clock || Date.now,
+    logger: options.logger || silentLogger
+  };
+}
+
+export function createOpenAIClient(apiKey: string, options: ResolvedServiceOptions): OpenAI {
+  const { transport } = options;
+
+  return new OpenAI({
+    apiKey,
+    baseURL: options.baseUrls.openai,
+    fetch: openAIFetch(transport)
+  });
+}
+
+/**
+ * The SDK types its fetch against its own shims; at runtime they are the
+ * global fetch types the transport uses.
+ */
+function openAIFetch(transport: HttpTransport): Fetch {
+  return async (url, init) => {
+    const requestInit = init as RequestInit;
+    const response = await transport(String(url), requestInit);
+    await recordOpenAIUsage(requestInit, response);
+    return response as Awaited<ReturnType<Fetch>>;
+  };
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
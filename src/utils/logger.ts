@@ -0,0 +1,135 @@
+// src/utils/logger.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { LogContext, LogLevel, Logger } from '../types/logger';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+};
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY_PATTERN = /api[-_]?key|authorization|secret|password|bearer|access[-_]?token/i;
+const SECRET_VALUE_PATTERNS: Array<[RegExp, string]> = [
+  [/Bearer\s+[A-Za-z0-9\-._~+/%=]+/g, `Bearer ${REDACTED}`],
+  [/\bsk-[A-Za-z0-9_-]{10,}/g, REDACTED],
+  [/([?&](?:api[-_]?key|token)=)[^&\s]+/gi, `$1${REDACTED}`]
+];
+
+const correlationStore = new AsyncLocalStorage<string>();
+
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+export interface ConsoleLoggerOptions {
+  /** Minimum level written, defaults to `info` */
+  level?: LogLevel;
+  /** `json` writes one JSON object per line; `text` is meant for terminals */
+  format?: 'json' | 'text';
+  /** Line sink, defaults to stderr */
+  write?: (line: string) => void;
+}
+
+/**
+ * Logger writing to stderr (or `write`), filtered by level.
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const minLevel = LEVEL_ORDER[options.level || 'info'];
+  const format = options.format || 'json';
+  const write = options.write || ((line: string) => process.stderr.write(`${line}\n`));
+
+  const log = (level: LogLevel) => (message: string, context: LogContext = {}) => {
+    if (LEVEL_ORDER[level] < minLevel) return;
+
+    const time = new Date().toISOString();
+    if (format === 'json') {
+      write(JSON.stringify({ time, level, message, ...toPlain(context) as LogContext }));
+    } else {
+      const details = Object.keys(context).length ? ` ${JSON.stringify(toPlain(context))}` : '';
+      write(`${time} ${level.toUpperCase()} ${message}${details}`);
+    }
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error')
+  };
+}
+
+/**
+ * Wraps a logger so every entry has secrets masked and carries the
+ * correlation ID of the `analyze()` call it belongs to.
+ */
+export function createScopedLogger(base: Logger, secrets: Array<string | undefined> = []): Logger {
+  const knownSecrets = secrets.filter((secret): secret is string => !!secret && secret.length >= 8);
+
+  const redactString = (value: string): string => {
+    let result = value;
+    for (const secret of knownSecrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    for (const [pattern, replacement] of SECRET_VALUE_PATTERNS) {
+      result = result.replace(pattern, replacement);
+    }
+    return result;
+  };
+
+  const redact = (value: unknown, depth: number = 0): unknown => {
+    if (typeof value === 'string') return redactString(value);
+    if (depth > 6 || value === null || typeof value !== 'object') return value;
+    if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) && typeof item === 'string' ? REDACTED : redact(item, depth + 1)
+      ])
+    );
+  };
+
+  const log = (level: LogLevel) => (message: string, context: LogContext = {}) => {
+    const correlationId = correlationStore.getStore();
+    const scoped = correlationId ? { correlationId, ...context } : context;
+    base[level](redactString(message), redact(toPlain(scoped)) as LogContext);
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error')
+  };
+}
+
+/**
+ * Runs `fn` with `correlationId` attached to every log entry it produces,
+ * including those from asynchronous work it starts.
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlationStore.run(correlationId, fn);
+}
+
+/**
+ * Converts values JSON cannot represent (errors, bigints) so they survive
+ * serialization in log lines.
+ */
+function toPlain(value: unknown, depth: number = 0): unknown {
+  if (value instanceof Error) {
+    const { name, message, stack } = value;
+    const extra = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlain(item, depth + 1)]));
+    return { name, message, ...extra, stack };
+  }
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (depth > 6 || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(item => toPlain(item, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlain(item, depth + 1)]));
+}
@@ -0,0 +1,47 @@
+// src/utils/serialize.ts
+import { PublicKey } from '@solana/web3.js';
+
+type TaggedValue =
+  | { $type: 'bigint'; value: string }
+  | { $type: 'date'; value: string }
+  | { $type: 'publicKey'; value: string };
+
+/**
+ * JSON encoding that round-trips the non-JSON values found in analysis
+ * results: bigint supplies, Date timestamps and mint PublicKeys.
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string, current: unknown) {
+    // Dates are already strings by the time the replacer sees them
+    const raw = this[key];
+    if (raw instanceof Date) return { $type: 'date', value: raw.toISOString() };
+    if (raw instanceof PublicKey) return { $type: 'publicKey', value: raw.toBase58() };
+    if (typeof current === 'bigint') return { $type: 'bigint', value: current.toString() };
+    return current;
+  });
+}
+
+export function deserialize<T>(text: string): T {
+  return JSON.parse(text, (_key, value) => {
+    if (!isTaggedValue(value)) return value;
+
+    switch (value.$type) {
+      case 'bigint':
+        return BigInt(value.value);
+      case 'date':
+        return new Date(value.value);
+      case 'publicKey':
+        return new PublicKey(value.value);
+    }
+  }) as T;
+}
+
+function isTaggedValue(value: unknown): value is TaggedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TaggedValue).$type === 'string' &&
+    typeof (value as TaggedValue).value === 'string' &&
+    Object.keys(value).length === 2
+  );
+}
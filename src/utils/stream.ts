@@ -0,0 +1,68 @@
+// src/utils/stream.ts
+
+/**
+ * Push-based async iterator: producers `push` values as they become available
+ * and consumers read them with `for await`. `fail` rejects the pending read.
+ */
+export class AsyncEventQueue<T> implements AsyncIterableIterator<T> {
+  private readonly buffered: T[] = [];
+  private readonly waiting: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private done = false;
+  private error: unknown = undefined;
+  private failed = false;
+
+  push(value: T): void {
+    if (this.done) return;
+
+    const reader = this.waiting.shift();
+    if (reader) {
+      reader.resolve({ value, done: false });
+    } else {
+      this.buffered.push(value);
+    }
+  }
+
+  end(): void {
+    this.done = true;
+    for (const reader of this.waiting.splice(0)) {
+      reader.resolve({ value: undefined, done: true });
+    }
+  }
+
+  fail(error: unknown): void {
+    this.failed = true;
+    this.error = error;
+    this.done = true;
+    for (const reader of this.waiting.splice(0)) {
+      reader.reject(error);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffered.length > 0) {
+      return Promise.resolve({ value: this.buffered.shift() as T, done: false });
+    }
+    if (this.failed) {
+      // Report the failure once, then behave like a finished iterator
+      this.failed = false;
+      return Promise.reject(this.error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async return(): Promise<IteratorResult<T>> {
+    this.end();
+    this.buffered.length = 0;
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -0,0 +1,116 @@
+// src/utils/usage.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { DEFAULT_LLM_PRICE, LLM_PRICING, LlmPrice } from '../constants/pricing';
+import { LlmUsage } from '../types/batch';
+
+const meterStore = new AsyncLocalStorage<UsageMeter>();
+
+const PRICED_MODELS = Object.keys(LLM_PRICING).sort((a, b) => b.length - a.length);
+
+export function emptyUsage(): LlmUsage {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Accumulates LLM calls and their estimated cost. Records also roll up into
+ * the parent meter, so a batch total and its per-item totals stay in sync.
+ */
+export class UsageMeter {
+  readonly usage: LlmUsage = emptyUsage();
+
+  constructor(private readonly parent?: UsageMeter) {}
+
+  record(model: string, promptTokens: number, completionTokens: number): void {
+    const price = priceFor(model);
+    this.usage.calls++;
+    this.usage.promptTokens += promptTokens;
+    this.usage.completionTokens += completionTokens;
+    this.usage.costUsd += (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+    this.parent?.record(model, promptTokens, completionTokens);
+  }
+
+  /**
+   * Adds usage recorded under `source` to this meter and its parents, skipping
+   * the meters that already counted it through `source`'s own roll-up.
+   */
+  attribute(usage: LlmUsage, source: UsageMeter): void {
+    if (source.isWithin(this)) return;
+    this.usage.calls += usage.calls;
+    this.usage.promptTokens += usage.promptTokens;
+    this.usage.completionTokens += usage.completionTokens;
+    this.usage.costUsd += usage.costUsd;
+    this.parent?.attribute(usage, source);
+  }
+
+  // Whether `meter` is this meter or one of its parents
+  private isWithin(meter: UsageMeter): boolean {
+    return this === meter || (this.parent?.isWithin(meter) ?? false);
+  }
+}
+
+/** A load whose usage is metered on its own so callers that join it can be charged too */
+export interface SharedLoad<T> {
+  promise: Promise<T>;
+  meter: UsageMeter;
+}
+
+/**
+ * Runs `load` under a meter of its own that rolls up into the caller's, so
+ * the caller that starts a shared load is charged as usual.
+ */
+export function startSharedLoad<T>(load: () => Promise<T>): SharedLoad<T> {
+  const meter = new UsageMeter(meterStore.getStore());
+  return { promise: meterStore.run(meter, load), meter };
+}
+
+/**
+ * Waits for a load another caller started and charges its usage to the
+ * active meter as well. Meters both callers share, such as a batch total,
+ * count it once.
+ */
+export async function joinSharedLoad<T>(shared: SharedLoad<T>): Promise<T> {
+  const meter = meterStore.getStore();
+  try {
+    return await shared.promise;
+  } finally {
+    meter?.attribute(shared.meter.usage, shared.meter);
+  }
+}
+
+/**
+ * Runs `fn` with `meter` receiving every OpenAI call made inside it.
+ */
+export function runWithUsageMeter<T>(meter: UsageMeter, fn: () => Promise<T>): Promise<T> {
+  return meterStore.run(meter, fn);
+}
+
+/**
+ * Records one OpenAI exchange against the active meter, if any. Token counts
+ * come from the response's `usage` block; the model from the request.
+ */
+export async function recordOpenAIUsage(init: RequestInit | undefined, response: Response): Promise<void> {
+  const meter = meterStore.getStore();
+  if (!meter) return;
+
+  let model = '';
+  let promptTokens = 0;
+  let completionTokens = 0;
+  try {
+    if (typeof init?.body === 'string') {
+      model = JSON.parse(init.body).model || '';
+    }
+    const body = await response.clone().json();
+    model = model || body.model || '';
+    promptTokens = body.usage?.prompt_tokens || 0;
+    completionTokens = body.usage?.completion_tokens || 0;
+  } catch {
+    // Error bodies and non-JSON responses still count as a call
+  }
+
+  meter.record(model, promptTokens, completionTokens);
+}
+
+function priceFor(model: string): LlmPrice {
+  const match = PRICED_MODELS.find(prefix => model.startsWith(prefix));
+  return match ? LLM_PRICING[match] : DEFAULT_LLM_PRICE;
+}
@@ -0,0 +1,99 @@
+// test/backtest/engine.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runBacktest } from '../../src/backtest';
+import { candle, flat, scripted } from './helpers';
+
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-6, `expected ${expected}, got ${actual}`);
+
+const NO_COSTS = { feeRate: 0, slippage: 0 };
+
+describe('runBacktest', () => {
+  const rising = [flat(0, 10), flat(1, 11), flat(2, 12), flat(3, 13)];
+
+  it('fills decisions at the next bar\'s open', () => {
+    const { trades, equity } = runBacktest(rising, scripted({ 0: 'enter', 2: 'exit' }), NO_COSTS);
+
+    assert.equal(trades.length, 1);
+    const [trade] = trades;
+    assert.equal(trade.entryTimestamp, rising[1].timestamp);
+    assert.equal(trade.exitTimestamp, rising[3].timestamp);
+    assert.equal(trade.entryPrice, 11);
+    assert.equal(trade.exitPrice, 13);
+    assert.equal(trade.bars, 2);
+    assert.equal(trade.exitReason, 'signal');
+    close(trade.return, 13 / 11 - 1);
+    // 1000 / 11 units marked at each close
+    [1000, 1000, 12000 / 11, 13000 / 11].forEach((value, i) => close(equity[i], value));
+  });
+
+  it('charges fees and slippage on both sides', () => {
+    const { trades } = runBacktest(rising, scripted({ 0: 'enter', 2: 'exit' }), { feeRate: 0.01, slippage: 0.02 });
+    const [trade] = trades;
+
+    // Buy at 11 * 1.02 with 990 after the fee, sell at 13 * 0.98 less 1%
+    close(trade.entryPrice, 11.22);
+    close(trade.exitPrice, 12.74);
+    close(trade.pnl, (990 / 11.22) * 12.74 * 0.99 - 1000);
+    close(trade.return, 0.1128764706);
+  });
+
+  it('ignores a decision at the last close', () => {
+    const { trades } = runBacktest(rising, scripted({ 3: 'enter' }), NO_COSTS);
+    assert.equal(trades.length, 0);
+  });
+
+  describe('stop-loss and take-profit', () => {
+    const enter = scripted({ 0: 'enter' });
+    const entry = [flat(0, 10), candle(1, 10, 10.5, 9.5, 10)];
+
+    it('fills the stop at its level inside the bar', () => {
+      const { trades } = runBacktest([...entry, candle(2, 9.5, 9.8, 8.5, 9)], enter, { ...NO_COSTS, stopLoss: 0.1 });
+      assert.equal(trades[0].exitReason, 'stopLoss');
+      close(trades[0].exitPrice, 9);
+    });
+
+    it('fills the stop at the open after a gap down', () => {
+      const { trades } = runBacktest([...entry, candle(2, 8, 8.5, 7, 8)], enter, { ...NO_COSTS, stopLoss: 0.1 });
+      assert.equal(trades[0].exitReason, 'stopLoss');
+      assert.equal(trades[0].exitPrice, 8);
+    });
+
+    it('fills the target at its level inside the bar', () => {
+      const { trades } = runBacktest([...entry, candle(2, 11, 12.5, 10.8, 12)], enter, { ...NO_COSTS, takeProfit: 0.2 });
+      assert.equal(trades[0].exitReason, 'takeProfit');
+      close(trades[0].exitPrice, 12);
+    });
+
+    it('fills the target at the open after a gap up', () => {
+      const { trades } = runBacktest([...entry, candle(2, 13, 14, 12.5, 13.5)], enter, { ...NO_COSTS, takeProfit: 0.2 });
+      assert.equal(trades[0].exitReason, 'takeProfit');
+      assert.equal(trades[0].exitPrice, 13);
+    });
+
+    it('assumes the stop filled first when both are hit in one bar', () => {
+      const options = { ...NO_COSTS, stopLoss: 0.1, takeProfit: 0.1 };
+      const { trades } = runBacktest([...entry, candle(2, 10, 11.5, 8.5, 11)], enter, options);
+      assert.equal(trades[0].exitReason, 'stopLoss');
+      close(trades[0].exitPrice, 9);
+    });
+
+    it('applies slippage to protective exits', () => {
+      const options = { feeRate: 0, slippage: 0.01, stopLoss: 0.1 };
+      const { trades } = runBacktest([...entry, candle(2, 8, 8.5, 7, 8)], enter, options);
+      // Entry 10.1, stop at 9.09 gapped through, so the open of 8 less 1%
+      close(trades[0].exitPrice, 7.92);
+    });
+  });
+
+  it('closes a position still open after the last candle at its close', () => {
+    const { trades, equity } = runBacktest(rising, scripted({ 0: 'enter' }), { feeRate: 0, slippage: 0.01 });
+    const [trade] = trades;
+
+    assert.equal(trade.exitReason, 'end');
+    assert.equal(trade.exitTimestamp, rising[3].timestamp);
+    close(trade.exitPrice, 13 * 0.99);
+    close(equity[3], 1000 + trade.pnl);
+  });
+});
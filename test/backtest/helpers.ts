@@ -0,0 +1,22 @@
+// test/backtest/helpers.ts
+import { PriceCandle } from '../../src/types/technical';
+import { Strategy, StrategyAction } from '../../src/types/backtest';
+
+export const HOUR = 60 * 60;
+
+/** Hourly candle at `index` with the given open, high, low and close */
+export function candle(index: number, open: number, high: number, low: number, close: number): PriceCandle {
+  return { timestamp: index * HOUR, open, high, low, close, volume: 1000 };
+}
+
+export function flat(index: number, price: number): PriceCandle {
+  return candle(index, price, price, price, price);
+}
+
+/** Takes the given action at the close of each listed bar and holds otherwise */
+export function scripted(actions: Record<number, StrategyAction>): Strategy {
+  return {
+    name: 'scripted',
+    decide: history => actions[history.length - 1] ?? 'hold'
+  };
+}
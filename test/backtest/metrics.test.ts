@@ -0,0 +1,66 @@
+// test/backtest/metrics.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeMetrics, inferPeriodsPerYear, maxDrawdown, sharpeRatio } from '../../src/backtest';
+import { BacktestTrade } from '../../src/types/backtest';
+import { HOUR, flat } from './helpers';
+
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+const trade = (pnl: number): BacktestTrade => ({
+  entryTimestamp: 0,
+  exitTimestamp: HOUR,
+  entryPrice: 1,
+  exitPrice: 1,
+  return: pnl / 100,
+  pnl,
+  bars: 1,
+  exitReason: 'signal'
+});
+
+describe('maxDrawdown', () => {
+  it('is the largest fall from a running peak', () => {
+    // 120 -> 90 is 25%, 130 -> 104 only 20%
+    close(maxDrawdown([100, 120, 90, 130, 104]), 0.25);
+  });
+
+  it('is 0 for a curve that never falls', () => {
+    assert.equal(maxDrawdown([100, 100, 110, 120]), 0);
+  });
+});
+
+describe('sharpeRatio', () => {
+  it('annualizes the mean over the sample deviation of bar returns', () => {
+    // Returns +10%, -10%, +10%: mean 1/30, deviation 0.11547, times sqrt(4)
+    close(sharpeRatio([100, 110, 99, 108.9], 4), 1 / Math.sqrt(3));
+  });
+
+  it('is 0 for a flat curve or fewer than two returns', () => {
+    assert.equal(sharpeRatio([100, 100, 100], 365), 0);
+    assert.equal(sharpeRatio([100, 110], 365), 0);
+  });
+});
+
+describe('computeMetrics', () => {
+  const base = { equity: [1000, 1035], initialCapital: 1000, exposure: 0.5, periodsPerYear: 365 };
+
+  it('divides gross profit by gross loss', () => {
+    const metrics = computeMetrics({ ...base, trades: [30, -10, -5, 20].map(trade) });
+    close(metrics.profitFactor!, 50 / 15);
+    assert.equal(metrics.winRate, 0.5);
+    close(metrics.expectancy, 0.0875);
+    close(metrics.totalReturn, 0.035);
+  });
+
+  it('has no profit factor when no trade lost money', () => {
+    assert.equal(computeMetrics({ ...base, trades: [trade(10)] }).profitFactor, null);
+  });
+});
+
+describe('inferPeriodsPerYear', () => {
+  it('uses the median candle spacing', () => {
+    const candles = [flat(0, 1), flat(1, 1), flat(2, 1), flat(5, 1)];
+    assert.equal(inferPeriodsPerYear(candles), 365 * 24);
+  });
+});
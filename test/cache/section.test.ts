@@ -0,0 +1,63 @@
+// test/cache/section.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SectionCache } from '../../src/cache/section';
+import { UsageMeter, recordOpenAIUsage, runWithUsageMeter } from '../../src/utils/usage';
+
+// One gpt-4o-mini exchange with 1000 prompt and 200 completion tokens
+async function callModel(): Promise<void> {
+  const response = new Response(JSON.stringify({ usage: { prompt_tokens: 1000, completion_tokens: 200 } }));
+  await recordOpenAIUsage({ body: JSON.stringify({ model: 'gpt-4o-mini' }) }, response);
+}
+
+describe('SectionCache', () => {
+  it('charges a coalesced load to every caller and the batch once', async () => {
+    const cache = new SectionCache<string>('social');
+    const batch = new UsageMeter();
+    const first = new UsageMeter(batch);
+    const second = new UsageMeter(batch);
+
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      await released;
+      await callModel();
+      return 'metrics';
+    };
+
+    const results = Promise.all([
+      runWithUsageMeter(first, () => cache.getOrLoad('BONK', load)),
+      runWithUsageMeter(second, () => cache.getOrLoad('BONK', load))
+    ]);
+    release();
+
+    assert.deepEqual(await results, ['metrics', 'metrics']);
+    assert.equal(loads, 1);
+    assert.equal(first.usage.calls, 1);
+    assert.equal(second.usage.calls, 1);
+    assert.equal(second.usage.promptTokens, 1000);
+    assert.equal(second.usage.costUsd, first.usage.costUsd);
+    assert.equal(batch.usage.calls, 1);
+    assert.equal(batch.usage.costUsd, first.usage.costUsd);
+  });
+
+  it('charges nothing to callers served from the cache', async () => {
+    const cache = new SectionCache<string>('social');
+    await cache.getOrLoad('BONK', async () => 'metrics');
+
+    const meter = new UsageMeter();
+    await runWithUsageMeter(meter, () => cache.getOrLoad('BONK', async () => {
+      await callModel();
+      return 'fresh';
+    }));
+    assert.equal(meter.usage.calls, 0);
+  });
+
+  it('does not store values rejected by shouldCache', async () => {
+    const cache = new SectionCache<string>('social');
+    await cache.getOrLoad('BONK', async () => 'fallback', () => false);
+    assert.equal(await cache.getOrLoad('BONK', async () => 'fresh'), 'fresh');
+  });
+});
@@ -0,0 +1,31 @@
+// test/chart/render.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderChart } from '../../src/chart';
+import { PriceCandle } from '../../src/types/technical';
+
+const CANDLES: PriceCandle[] = Array.from({ length: 30 }, (_, i) => ({
+  timestamp: i * 3600,
+  open: 100 + i,
+  high: 102 + i,
+  low: 99 + i,
+  close: 101 + i,
+  volume: 1000
+}));
+
+const clipIds = (svg: string) => [...svg.matchAll(/<clipPath id="([^"]+)"/g)].map(match => match[1]);
+
+describe('renderChart', () => {
+  it('gives each render its own clip-path id', () => {
+    const first = renderChart(CANDLES);
+    const second = renderChart(CANDLES);
+
+    assert.equal(clipIds(first).length, 1);
+    assert.notEqual(clipIds(first)[0], clipIds(second)[0]);
+    assert.ok(second.includes(`clip-path="url(#${clipIds(second)[0]})"`));
+  });
+
+  it('prefixes ids with the given id', () => {
+    assert.deepEqual(clipIds(renderChart(CANDLES, null, { id: 'bonk 1H' })), ['bonk-1H-price-pane']);
+  });
+});
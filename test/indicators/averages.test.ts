@@ -0,0 +1,40 @@
+// test/indicators/averages.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ema, latest, latestValues, sma } from '../../src/indicators';
+import { assertSeries } from './helpers';
+
+describe('sma', () => {
+  it('averages each full window', () => {
+    assertSeries(sma([1, 2, 3, 4, 5, 6], 3), [NaN, NaN, 2, 3, 4, 5]);
+    assertSeries(sma([2, 4, 6, 8, 12], 2), [NaN, 3, 5, 7, 10]);
+  });
+
+  it('is null while there are fewer values than the period', () => {
+    assertSeries(sma([1, 2], 3), [NaN, NaN]);
+    assert.equal(latest(sma([1, 2], 3)), null);
+    assert.equal(latest(sma([], 3)), null);
+  });
+});
+
+describe('ema', () => {
+  it('seeds with the SMA and then smooths with 2 / (period + 1)', () => {
+    // seed (2 + 4 + 6) / 3 = 4, then k = 0.5: 6, 9, 11.5
+    assertSeries(ema([2, 4, 6, 8, 12, 14], 3), [NaN, NaN, 4, 6, 9, 11.5]);
+  });
+
+  it('skips leading NaN from another indicator\'s warm-up', () => {
+    assertSeries(ema([NaN, NaN, 1, 2, 3, 5], 3), [NaN, NaN, NaN, NaN, 2, 3.5]);
+  });
+
+  it('is null while there are fewer values than the period', () => {
+    assert.equal(latest(ema([1, 2], 3)), null);
+  });
+});
+
+describe('latestValues', () => {
+  it('is null unless every line is past its warm-up', () => {
+    assert.deepEqual(latestValues({ a: [1, 2], b: [NaN, 3] }), { a: 2, b: 3 });
+    assert.equal(latestValues({ a: [1, 2], b: [3, NaN] }), null);
+  });
+});
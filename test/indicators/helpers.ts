@@ -0,0 +1,35 @@
+// test/indicators/helpers.ts
+import assert from 'node:assert/strict';
+import { PriceCandle } from '../../src/types/technical';
+
+/**
+ * Six hand-checkable candles; the expected values in the tests are worked
+ * out from these by hand.
+ */
+export const CANDLES: PriceCandle[] = [
+  { timestamp: 0, open: 9, high: 10, low: 8, close: 9, volume: 100 },
+  { timestamp: 60, open: 9, high: 11, low: 9, close: 10, volume: 200 },
+  { timestamp: 120, open: 10, high: 12, low: 9, close: 11, volume: 150 },
+  { timestamp: 180, open: 11, high: 15, low: 11, close: 14, volume: 300 },
+  { timestamp: 240, open: 14, high: 14, low: 10, close: 11, volume: 250 },
+  { timestamp: 300, open: 11, high: 13, low: 12, close: 12.5, volume: 50 }
+];
+
+export function candlesFromCloses(closes: number[]): PriceCandle[] {
+  return closes.map((close, i) => ({ timestamp: i * 60, open: close, high: close, low: close, close, volume: 0 }));
+}
+
+/**
+ * Compares a series to the expected values within `tolerance`, with NaN
+ * expected where the indicator is still warming up.
+ */
+export function assertSeries(actual: number[], expected: number[], tolerance: number = 1e-3): void {
+  assert.equal(actual.length, expected.length, 'series length');
+  expected.forEach((value, i) => {
+    if (Number.isNaN(value)) {
+      assert.ok(Number.isNaN(actual[i]), `expected NaN at ${i}, got ${actual[i]}`);
+    } else {
+      assert.ok(Math.abs(actual[i] - value) <= tolerance, `expected ${value} at ${i}, got ${actual[i]}`);
+    }
+  });
+}
@@ -0,0 +1,108 @@
+// test/indicators/incremental.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  IncrementalEma,
+  IncrementalIndicators,
+  IncrementalMacd,
+  IncrementalRsi,
+  IncrementalSma,
+  closes,
+  ema,
+  latest,
+  latestValues,
+  macd,
+  rsi,
+  sma
+} from '../../src/indicators';
+import { PriceCandle } from '../../src/types/technical';
+
+// A wavy, drifting series long enough for SMA200
+const HISTORY: PriceCandle[] = Array.from({ length: 240 }, (_, i) => {
+  const close = 100 + i * 0.1 + 5 * Math.sin(i / 4) + 2 * Math.cos(i / 7);
+  return { timestamp: i * 60, open: close, high: close + 1, low: close - 1, close, volume: 100 };
+});
+
+const near = (actual: number | null, expected: number | null, label: string) => {
+  if (expected === null) {
+    assert.equal(actual, null, `${label}: expected null, got ${actual}`);
+    return;
+  }
+  assert.ok(actual !== null && Math.abs(actual - expected) < 1e-9, `${label}: expected ${expected}, got ${actual}`);
+};
+
+describe('incremental indicators', () => {
+  it('match the batch functions candle by candle, null while warming up', () => {
+    const indicators = {
+      sma: IncrementalSma.create(20),
+      ema: IncrementalEma.create(20),
+      rsi: IncrementalRsi.create(14),
+      macd: IncrementalMacd.create()
+    };
+
+    // Checked against the batch series over the first 60 candles, which covers every warm-up
+    for (let i = 0; i < 60; i++) {
+      const history = HISTORY.slice(0, i + 1);
+      near(indicators.sma.update(HISTORY[i]), latest(sma(closes(history), 20)), `sma at ${i}`);
+      near(indicators.ema.update(HISTORY[i]), latest(ema(closes(history), 20)), `ema at ${i}`);
+      near(indicators.rsi.update(HISTORY[i]), latest(rsi(history, 14)), `rsi at ${i}`);
+
+      const expected = latestValues(macd(history));
+      const actual = indicators.macd.update(HISTORY[i]);
+      near(actual && actual.value, expected && expected.macd, `macd at ${i}`);
+      near(actual && actual.signal, expected && expected.signal, `signal at ${i}`);
+    }
+  });
+
+  it('revises a candle that is still forming instead of counting it twice', () => {
+    const rsiState = IncrementalRsi.create(14).seed(HISTORY.slice(0, 30));
+    rsiState.update({ ...HISTORY[30], close: HISTORY[30].close + 3 });
+    const revised = rsiState.update(HISTORY[30]);
+
+    near(revised, latest(rsi(HISTORY.slice(0, 31), 14)), 'revised rsi');
+  });
+
+  it('ignores candles older than the latest one', () => {
+    const smaState = IncrementalSma.create(20).seed(HISTORY.slice(0, 40));
+    const before = smaState.value;
+    assert.equal(smaState.update(HISTORY[10]), before);
+  });
+
+  it('continue from serialized state as if never stopped', () => {
+    const uninterrupted = IncrementalIndicators.fromHistory(HISTORY);
+
+    const first = IncrementalIndicators.fromHistory(HISTORY.slice(0, 150));
+    const restored = IncrementalIndicators.fromJSON(JSON.parse(JSON.stringify(first.toJSON())));
+    // Replaying an overlapping history after a restore is harmless
+    restored.seed(HISTORY.slice(140));
+
+    assert.deepEqual(restored.values, uninterrupted.values);
+    assert.deepEqual(restored.toJSON(), uninterrupted.toJSON());
+  });
+
+  it('equal the batch values over the full history', () => {
+    const { rsi: rsiValue, macd: macdValue, movingAverages } = IncrementalIndicators.fromHistory(HISTORY).values;
+    const prices = closes(HISTORY);
+    const expectedMacd = latestValues(macd(HISTORY))!;
+
+    near(rsiValue, latest(rsi(HISTORY, 14)), 'rsi');
+    near(macdValue!.histogram, expectedMacd.histogram, 'histogram');
+    near(movingAverages.sma20, latest(sma(prices, 20)), 'sma20');
+    near(movingAverages.sma50, latest(sma(prices, 50)), 'sma50');
+    near(movingAverages.sma200, latest(sma(prices, 200)), 'sma200');
+    near(movingAverages.ema20, latest(ema(prices, 20)), 'ema20');
+  });
+
+  it('are all null before any candle', () => {
+    assert.deepEqual(IncrementalIndicators.create().values, {
+      rsi: null,
+      macd: null,
+      movingAverages: { sma20: null, sma50: null, sma200: null, ema20: null }
+    });
+  });
+
+  it('reject malformed saved state', () => {
+    const state = IncrementalSma.create(20).toJSON();
+    assert.throws(() => IncrementalSma.fromJSON({ ...state, window: { ...state.window, period: 0 } }));
+  });
+});
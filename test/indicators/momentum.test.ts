@@ -0,0 +1,68 @@
+// test/indicators/momentum.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { latest, latestValues, macd, rsi, stochastic } from '../../src/indicators';
+import { CANDLES, assertSeries, candlesFromCloses } from './helpers';
+
+// Closes from StockCharts' Wilder RSI(14) worked example. Their table rounds
+// the running averages to four places, so it reads 70.53 where the unrounded
+// first value is 70.46.
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28,
+  46.28, 46, 46.03, 46.41, 46.22, 45.64
+];
+const RSI_REFERENCE = [70.46, 66.25, 66.48, 69.35, 66.29, 57.92];
+
+describe('rsi', () => {
+  it('matches the reference values', () => {
+    const result = rsi(candlesFromCloses(RSI_CLOSES), 14);
+    assertSeries(result.slice(0, 14), new Array(14).fill(NaN));
+    assertSeries(result.slice(14), RSI_REFERENCE, 0.01);
+  });
+
+  it('is 100 when price only rose and 50 when it never moved', () => {
+    assert.equal(latest(rsi(candlesFromCloses([1, 2, 3, 4]), 3)), 100);
+    assert.equal(latest(rsi(candlesFromCloses([5, 5, 5, 5]), 3)), 50);
+  });
+
+  it('is null until there are period + 1 candles', () => {
+    assert.equal(latest(rsi(candlesFromCloses(RSI_CLOSES.slice(0, 14)), 14)), null);
+  });
+});
+
+describe('macd', () => {
+  it('matches hand-computed values for short periods', () => {
+    // EMA(2) - EMA(3) of the closes, signal EMA(2) of that
+    const result = macd(candlesFromCloses([1, 2, 4, 7, 11, 16]), { fast: 2, slow: 3, signal: 2 });
+    assertSeries(result.macd, [NaN, NaN, 0.8333, 1.0556, 1.4074, 1.8302]);
+    assertSeries(result.signal, [NaN, NaN, NaN, 0.9444, 1.2531, 1.6378]);
+    assertSeries(result.histogram, [NaN, NaN, NaN, 0.1111, 0.1543, 0.1924]);
+  });
+
+  it('is null until the slow EMA and the signal line have warmed up', () => {
+    const closes = Array.from({ length: 34 }, (_, i) => 10 + Math.sin(i));
+    const result = macd(candlesFromCloses(closes));
+    assert.ok(Number.isNaN(result.macd[24]) && !Number.isNaN(result.macd[25]));
+    assert.ok(Number.isNaN(result.signal[32]) && !Number.isNaN(result.signal[33]));
+    assert.equal(latestValues(macd(candlesFromCloses(closes.slice(0, 33)))), null);
+  });
+});
+
+describe('stochastic', () => {
+  it('matches hand-computed %K and %D', () => {
+    const result = stochastic(CANDLES, { kPeriod: 3, dPeriod: 2 });
+    assertSeries(result.k, [NaN, NaN, 75, 83.3333, 33.3333, 50]);
+    assertSeries(result.d, [NaN, NaN, NaN, 79.1667, 58.3333, 41.6667]);
+  });
+
+  it('smooths %K before %D for the slow stochastic', () => {
+    const result = stochastic(CANDLES, { kPeriod: 3, dPeriod: 2, smooth: 2 });
+    assertSeries(result.k, [NaN, NaN, NaN, 79.1667, 58.3333, 41.6667]);
+    assertSeries(result.d, [NaN, NaN, NaN, NaN, 68.75, 50]);
+  });
+
+  it('is 50 in a flat range and null with too few candles', () => {
+    assert.equal(latest(stochastic(candlesFromCloses([5, 5, 5]), { kPeriod: 3 }).k), 50);
+    assert.equal(latestValues(stochastic(CANDLES.slice(0, 3), { kPeriod: 3, dPeriod: 2 })), null);
+  });
+});
@@ -0,0 +1,57 @@
+// test/indicators/trend.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { adx, ichimoku, latest, latestValues, parabolicSar } from '../../src/indicators';
+import { CANDLES, assertSeries } from './helpers';
+
+describe('adx', () => {
+  it('matches hand-computed DI and ADX values', () => {
+    // +DM 1, 1, 3, 0, 0 and -DM 0, 0, 0, 1, 0 over true ranges 2, 3, 4, 4, 2
+    const result = adx(CANDLES, 3);
+    assertSeries(result.plusDI, [NaN, NaN, NaN, 55.5556, 33.3333, 25.641]);
+    assertSeries(result.minusDI, [NaN, NaN, NaN, 0, 10, 7.6923]);
+    // DX 100, 53.846, 53.846
+    assertSeries(result.adx, [NaN, NaN, NaN, NaN, NaN, 69.2308]);
+  });
+
+  it('is null until 2 * period candles', () => {
+    assert.equal(latestValues(adx(CANDLES.slice(0, 5), 3)), null);
+  });
+});
+
+describe('ichimoku', () => {
+  const options = { conversionPeriod: 2, basePeriod: 3, spanBPeriod: 4, displacement: 2 };
+
+  it('takes range midpoints and shifts the cloud forward', () => {
+    const result = ichimoku(CANDLES, options);
+    assertSeries(result.conversion, [NaN, 9.5, 10.5, 12, 12.5, 12]);
+    assertSeries(result.base, [NaN, NaN, 10, 12, 12, 12.5]);
+    assertSeries(result.spanA, [NaN, NaN, NaN, NaN, 10.25, 12]);
+    assertSeries(result.spanB, [NaN, NaN, NaN, NaN, NaN, 11.5]);
+    assertSeries(result.lagging, [11, 14, 11, 12.5, NaN, NaN]);
+  });
+
+  it('is null until the longest span has data', () => {
+    const { lagging, ...lines } = ichimoku(CANDLES.slice(0, 5), options);
+    assert.equal(latestValues(lines), null);
+  });
+});
+
+describe('parabolicSar', () => {
+  it('trails an uptrend with a rising acceleration factor', () => {
+    const result = parabolicSar(CANDLES);
+    assertSeries(result.sar, [NaN, 8, 8, 8.16, 8.5704, 8.9562]);
+    assert.deepEqual(result.direction, [null, 'up', 'up', 'up', 'up', 'up']);
+  });
+
+  it('flips to the extreme point when price crosses the SAR', () => {
+    const candles = [...CANDLES, { timestamp: 360, open: 12, high: 12.5, low: 8, close: 8.5, volume: 10 }];
+    const result = parabolicSar(candles);
+    assert.equal(result.sar[6], 15);
+    assert.equal(result.direction[6], 'down');
+  });
+
+  it('is null with fewer than two candles', () => {
+    assert.equal(latest(parabolicSar(CANDLES.slice(0, 1)).sar), null);
+  });
+});
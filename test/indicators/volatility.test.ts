@@ -0,0 +1,36 @@
+// test/indicators/volatility.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { atr, bollingerBands, latest, latestValues, trueRange } from '../../src/indicators';
+import { CANDLES, assertSeries, candlesFromCloses } from './helpers';
+
+describe('bollingerBands', () => {
+  it('uses the population standard deviation around the SMA', () => {
+    // mean 3, population deviation sqrt(2)
+    const result = bollingerBands(candlesFromCloses([1, 2, 3, 4, 5]), { period: 5, multiplier: 2 });
+    assertSeries(result.middle, [NaN, NaN, NaN, NaN, 3]);
+    assertSeries(result.upper, [NaN, NaN, NaN, NaN, 5.8284]);
+    assertSeries(result.lower, [NaN, NaN, NaN, NaN, 0.1716]);
+    assertSeries(result.bandwidth, [NaN, NaN, NaN, NaN, 1.8856]);
+  });
+
+  it('is null with fewer candles than the period', () => {
+    assert.equal(latestValues(bollingerBands(candlesFromCloses([1, 2, 3]), { period: 5 })), null);
+  });
+});
+
+describe('atr', () => {
+  it('includes gaps from the previous close in the true range', () => {
+    assertSeries(trueRange(CANDLES), [NaN, 2, 3, 4, 4, 2]);
+  });
+
+  it('applies Wilder smoothing from index period', () => {
+    // seed (2 + 3 + 4) / 3, then (previous * 2 + tr) / 3
+    assertSeries(atr(CANDLES, 3), [NaN, NaN, NaN, 3, 3.3333, 2.8889]);
+  });
+
+  it('is null until there are period + 1 candles', () => {
+    assert.equal(latest(atr(CANDLES.slice(0, 3), 3)), null);
+    assert.equal(latest(atr([], 14)), null);
+  });
+});
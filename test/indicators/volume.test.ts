@@ -0,0 +1,32 @@
+// test/indicators/volume.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { latest, obv, vwap } from '../../src/indicators';
+import { CANDLES, assertSeries, candlesFromCloses } from './helpers';
+
+describe('obv', () => {
+  it('adds volume on up closes and subtracts it on down closes', () => {
+    assertSeries(obv(CANDLES), [0, 200, 350, 650, 400, 450]);
+  });
+
+  it('leaves OBV unchanged on flat closes', () => {
+    const candles = candlesFromCloses([1, 1, 2]).map(candle => ({ ...candle, volume: 10 }));
+    assertSeries(obv(candles), [0, 0, 10]);
+  });
+
+  it('is null without candles', () => {
+    assert.equal(latest(obv([])), null);
+  });
+});
+
+describe('vwap', () => {
+  it('weights the typical price by volume from the first candle', () => {
+    // typical prices 9, 10, 10.667 with volumes 100, 200, 150
+    assertSeries(vwap(CANDLES.slice(0, 3)), [9, 9.6667, 10]);
+  });
+
+  it('is null until some volume has traded', () => {
+    assertSeries(vwap(candlesFromCloses([1, 2])), [NaN, NaN]);
+    assert.equal(latest(vwap(candlesFromCloses([1, 2]))), null);
+  });
+});
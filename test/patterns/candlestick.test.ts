@@ -0,0 +1,94 @@
+// test/patterns/candlestick.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectCandlestickPatterns } from '../../src/patterns';
+import { HOUR, candle } from './helpers';
+
+// Four falling candles closing 108, 106, 104, 102, with bodies too small to be crows
+const DOWNTREND = [
+  candle(0, 109, 110.5, 107.5, 108),
+  candle(1, 107, 108.5, 105.5, 106),
+  candle(2, 105, 106.5, 103.5, 104),
+  candle(3, 103, 104.5, 101.5, 102)
+];
+
+// The mirror image, closing 92, 94, 96, 98
+const UPTREND = [
+  candle(0, 91, 92.5, 89.5, 92),
+  candle(1, 93, 94.5, 91.5, 94),
+  candle(2, 95, 96.5, 93.5, 96),
+  candle(3, 97, 98.5, 95.5, 98)
+];
+
+// Body 1, lower wick 5, upper wick 0.2
+const HAMMER_SHAPE = { open: 100, high: 101.2, low: 95, close: 101 };
+
+const names = (signals: Array<{ name: string }>) => signals.map(signal => signal.name);
+
+describe('detectCandlestickPatterns', () => {
+  it('reads a long lower wick after a decline as a hammer', () => {
+    const hammer = candle(4, HAMMER_SHAPE.open, HAMMER_SHAPE.high, HAMMER_SHAPE.low, HAMMER_SHAPE.close);
+    const signals = detectCandlestickPatterns([...DOWNTREND, hammer]);
+
+    assert.deepEqual(names(signals), ['Hammer']);
+    assert.equal(signals[0].implication, 'bullish');
+    assert.equal(signals[0].timestamp, 4 * HOUR);
+  });
+
+  it('reads the same shape after a rally as a hanging man', () => {
+    const shape = candle(4, 99, 100.2, 94, 100);
+    assert.deepEqual(names(detectCandlestickPatterns([...UPTREND, shape])), ['Hanging Man']);
+  });
+
+  it('does not count a hammer with a real upper wick', () => {
+    // The 1.5 upper wick is 20% of the range
+    const nearMiss = candle(4, 100, 102.5, 95, 101);
+    assert.deepEqual(detectCandlestickPatterns([...DOWNTREND, nearMiss]), []);
+  });
+
+  it('finds a bullish engulfing candle', () => {
+    const signals = detectCandlestickPatterns([
+      ...DOWNTREND,
+      candle(4, 102, 102.3, 100.8, 101),
+      candle(5, 100.8, 103.2, 100.5, 103)
+    ]);
+    assert.ok(names(signals).includes('Bullish Engulfing'));
+  });
+
+  it('does not call a candle engulfing when its body falls short', () => {
+    const signals = detectCandlestickPatterns([
+      ...DOWNTREND,
+      candle(4, 102, 102.3, 100.8, 101),
+      candle(5, 101.2, 101.9, 101, 101.8)
+    ]);
+    assert.ok(!names(signals).includes('Bullish Engulfing'));
+  });
+
+  it('finds a morning star', () => {
+    const signals = detectCandlestickPatterns([
+      ...DOWNTREND,
+      candle(4, 102, 102.2, 96.8, 97),
+      candle(5, 96.8, 97.3, 96.2, 96.9),
+      candle(6, 97, 101.2, 96.8, 101)
+    ]);
+    assert.ok(names(signals).includes('Morning Star'));
+  });
+
+  it('tags a signal with the support level it formed at', () => {
+    const hammer = candle(4, HAMMER_SHAPE.open, HAMMER_SHAPE.high, HAMMER_SHAPE.low, HAMMER_SHAPE.close);
+
+    const [atSupport] = detectCandlestickPatterns([...DOWNTREND, hammer], { support: [90, 95.5], resistance: [110] });
+    assert.equal(atSupport.nearLevel, 'support');
+    assert.equal(atSupport.level, 95.5);
+
+    const [awayFromLevels] = detectCandlestickPatterns([...DOWNTREND, hammer], { support: [90], resistance: [110] });
+    assert.equal(awayFromLevels.nearLevel, null);
+    assert.equal(awayFromLevels.level, null);
+  });
+
+  it('only reports signals within the lookback', () => {
+    const hammer = candle(4, HAMMER_SHAPE.open, HAMMER_SHAPE.high, HAMMER_SHAPE.low, HAMMER_SHAPE.close);
+    const after = [candle(5, 101, 103, 100.5, 102.5), candle(6, 102.5, 104.5, 102, 104)];
+    assert.deepEqual(detectCandlestickPatterns([...DOWNTREND, hammer, ...after], { lookback: 2 }), []);
+  });
+});
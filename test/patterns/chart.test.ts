@@ -0,0 +1,79 @@
+// test/patterns/chart.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectChartPatterns } from '../../src/patterns';
+import { ChartPattern, PriceCandle } from '../../src/types/technical';
+import { HOUR, candle, path } from './helpers';
+
+const named = (patterns: ChartPattern[], name: string) => patterns.find(pattern => pattern.name === name);
+
+// Candles from closes, each opening at the previous close with a 0.2 wick
+function fromCloses(closes: number[]): PriceCandle[] {
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    return candle(i, open, Math.max(open, close) + 0.2, Math.min(open, close) - 0.2, close);
+  });
+}
+
+// A rise into a rounded bottom from 120 down to 100 and back over 31 candles
+const CUP = [108, 112, 116, 118, ...Array.from({ length: 31 }, (_, i) => 100 + 20 * ((i - 15) / 15) ** 2)];
+
+describe('detectChartPatterns', () => {
+  it('finds a double top and measures its move below the neckline', () => {
+    // Tops at 120 around a 105 trough, then a break below it
+    const pattern = named(detectChartPatterns(path([100, 120, 105, 120, 95])), 'Double Top');
+
+    assert.ok(pattern);
+    assert.equal(pattern.implication, 'bearish');
+    assert.equal(pattern.startTimestamp, 5 * HOUR);
+    // Neckline 104.79 (the trough's wick) less the 15.45 height from the 120.24 tops
+    assert.ok(Math.abs(pattern.priceTarget! - 89.33) < 0.01, `target ${pattern.priceTarget}`);
+  });
+
+  it('does not call tops 7% apart a double top', () => {
+    assert.deepEqual(detectChartPatterns(path([100, 120, 105, 112, 95])), []);
+  });
+
+  it('prefers a head and shoulders over the double top its shoulders form', () => {
+    const patterns = detectChartPatterns(path([100, 115, 105, 125, 105, 115, 95]));
+    const pattern = named(patterns, 'Head and Shoulders');
+
+    assert.ok(pattern);
+    assert.equal(pattern.implication, 'bearish');
+    assert.equal(named(patterns, 'Double Top'), undefined);
+    // About the 20 point head height below the 105 neckline
+    assert.ok(Math.abs(pattern.priceTarget! - 84.32) < 0.01, `target ${pattern.priceTarget}`);
+  });
+
+  it('finds an ascending triangle under flat highs and rising lows', () => {
+    const pattern = named(detectChartPatterns(path([100, 120, 105, 120, 110, 120, 115, 120])), 'Ascending Triangle');
+
+    assert.ok(pattern);
+    assert.equal(pattern.implication, 'bullish');
+    assert.ok(pattern.confidence > 0.5);
+  });
+
+  it('finds a bull flag after a sharp pole', () => {
+    const pattern = named(detectChartPatterns(path([100, 130, 126, 129, 125, 128, 124], 4)), 'Bull Flag');
+
+    assert.ok(pattern);
+    assert.equal(pattern.startTimestamp, 0);
+    assert.ok(pattern.priceTarget! > 150);
+  });
+
+  it('finds a cup and handle with a shallow handle', () => {
+    const pattern = named(detectChartPatterns(fromCloses([...CUP, 118, 116, 115, 116, 117])), 'Cup and Handle');
+
+    assert.ok(pattern);
+    // Rim 120.2 plus the 20.4 cup depth
+    assert.ok(Math.abs(pattern.priceTarget! - 140.6) < 0.01, `target ${pattern.priceTarget}`);
+  });
+
+  it('rejects a handle that gives back more than half the cup', () => {
+    assert.equal(named(detectChartPatterns(fromCloses([...CUP, 116, 112, 106, 104, 105])), 'Cup and Handle'), undefined);
+  });
+
+  it('returns nothing for too few candles', () => {
+    assert.deepEqual(detectChartPatterns(path([100, 120], 5)), []);
+  });
+});
@@ -0,0 +1,70 @@
+// test/patterns/divergence.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectDivergences } from '../../src/patterns';
+import { PriceCandle } from '../../src/types/technical';
+import { HOUR, candle } from './helpers';
+
+/**
+ * A choppy climb to 120 (enough candles for RSI to warm up), then legs of
+ * `[target, candles]` walked in straight lines.
+ */
+function swings(legs: Array<[number, number]>): PriceCandle[] {
+  const closes = [110];
+  const walk = (target: number, steps: number) => {
+    const from = closes[closes.length - 1];
+    for (let step = 1; step <= steps; step++) closes.push(from + ((target - from) * step) / steps);
+  };
+  for (const target of [114, 111, 116, 113, 118, 115, 120]) walk(target, 3);
+  for (const [target, steps] of legs) walk(target, steps);
+
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    const wick = close * 0.002;
+    return candle(i, open, Math.max(open, close) + wick, Math.min(open, close) - wick, close);
+  });
+}
+
+describe('detectDivergences', () => {
+  it('finds a regular bullish RSI divergence when a slow lower low follows a crash', () => {
+    // A fast drop to 100, a bounce, then a grind to a lower 98 that RSI does not confirm
+    const divergence = detectDivergences(swings([[100, 4], [110, 8], [98, 12], [108, 6]]))
+      .find(found => found.direction === 'bullish');
+
+    assert.ok(divergence);
+    assert.equal(divergence.indicator, 'rsi');
+    assert.equal(divergence.type, 'regular');
+    assert.equal(divergence.startTimestamp, 26 * HOUR);
+    assert.equal(divergence.endTimestamp, 46 * HOUR);
+    assert.ok(divergence.priceEnd < divergence.priceStart);
+    assert.ok(divergence.indicatorEnd > divergence.indicatorStart);
+  });
+
+  it('finds no bullish divergence when RSI confirms the lower low', () => {
+    // The second drop to 85 is faster and deeper than the first
+    const divergences = detectDivergences(swings([[100, 8], [110, 6], [85, 3], [95, 6]]));
+    assert.equal(divergences.filter(found => found.direction === 'bullish').length, 0);
+  });
+
+  it('finds regular bearish divergences on both oscillators and a hidden bullish one', () => {
+    // A spike to 140, a pullback to a higher 130, then a slow higher high at 142
+    const divergences = detectDivergences(swings([[140, 4], [130, 8], [142, 12], [132, 6]]));
+    const regular = divergences.filter(found => found.type === 'regular' && found.endTimestamp === 45 * HOUR);
+
+    assert.deepEqual(regular.map(found => [found.indicator, found.direction]), [['rsi', 'bearish'], ['macd', 'bearish']]);
+    assert.ok(regular.every(found => found.priceEnd > found.priceStart && found.indicatorEnd < found.indicatorStart));
+
+    const hidden = divergences.find(found => found.type === 'hidden');
+    assert.ok(hidden);
+    assert.equal(hidden.direction, 'bullish');
+    assert.ok(hidden.priceEnd > hidden.priceStart && hidden.indicatorEnd < hidden.indicatorStart);
+  });
+
+  it('returns divergences oldest first with strengths between 0 and 1', () => {
+    const divergences = detectDivergences(swings([[140, 4], [130, 8], [142, 12], [132, 6]]));
+    const ends = divergences.map(found => found.endTimestamp);
+
+    assert.deepEqual(ends, [...ends].sort((a, b) => a - b));
+    assert.ok(divergences.every(found => found.strength >= 0 && found.strength <= 1));
+  });
+});
@@ -0,0 +1,26 @@
+// test/patterns/helpers.ts
+import { PriceCandle } from '../../src/types/technical';
+
+export const HOUR = 60 * 60;
+
+export function candle(index: number, open: number, high: number, low: number, close: number, volume: number = 1000): PriceCandle {
+  return { timestamp: index * HOUR, open, high, low, close, volume };
+}
+
+/**
+ * Candles whose closes walk straight between the given prices, `steps`
+ * candles per leg, each opening at the previous close with a small wick.
+ */
+export function path(points: number[], steps: number = 5, volume: number = 1000): PriceCandle[] {
+  const closes = [points[0]];
+  for (let leg = 1; leg < points.length; leg++) {
+    for (let step = 1; step <= steps; step++) {
+      closes.push(points[leg - 1] + ((points[leg] - points[leg - 1]) * step) / steps);
+    }
+  }
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    const wick = close * 0.002;
+    return candle(i, open, Math.max(open, close) + wick, Math.min(open, close) - wick, close, volume);
+  });
+}
@@ -0,0 +1,95 @@
+// test/patterns/levels.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fibonacciLevels, findZones, volumeProfile } from '../../src/patterns';
+import { candle, path } from './helpers';
+
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+
+describe('findZones', () => {
+  // Three lows at 100 and two highs at 110, then swings at 120, 115 and 125 before closing at 118
+  const ranging = path([105, 100, 110, 100, 110, 100, 110, 120, 115, 125, 118], 4);
+
+  it('clusters repeated swings into one zone with a touch count and band', () => {
+    const zone = findZones(ranging).find(found => found.touches === 3);
+
+    assert.ok(zone);
+    assert.equal(zone.type, 'support');
+    // The three wick lows just under 100, with a band one tolerance (half an ATR) wide
+    assert.ok(Math.abs(zone.price - 99.8) < 0.01, `price ${zone.price}`);
+    assert.ok(zone.low < zone.price && zone.price < zone.high);
+  });
+
+  it('keeps a swing just outside the ATR tolerance in its own zone', () => {
+    // Lows at 100 and 100.5 merge; the one at 103 is more than half an ATR (about 1.2) away
+    const zones = findZones(path([105, 100, 110, 100.5, 110, 103, 110, 120, 115, 125, 118], 4));
+    const prices = zones.map(zone => Math.round(zone.price * 10) / 10);
+
+    assert.ok(prices.includes(100));
+    assert.ok(prices.includes(102.8));
+    assert.equal(zones.find(zone => Math.round(zone.price) === 100)!.touches, 2);
+    assert.equal(zones.find(zone => Math.round(zone.price) === 103)!.touches, 1);
+  });
+
+  it('ranks zones by strength rather than price', () => {
+    const zones = findZones(ranging);
+    const strengths = zones.map(zone => zone.strength);
+    const support = zones.filter(zone => zone.type === 'support').map(zone => Math.round(zone.price));
+
+    assert.deepEqual(strengths, [...strengths].sort((a, b) => b - a));
+    // The thrice-tested 100 leads even though 110 and 115 sit closer to price
+    assert.deepEqual(support, [100, 110, 115]);
+  });
+
+  it('weighs the volume traded inside a zone', () => {
+    // The same chart with heavy trading around the 110 highs
+    const heavy = ranging.map(bar => bar.high >= 109 && bar.low <= 111 ? { ...bar, volume: 20_000 } : bar);
+    const zone = findZones(heavy).find(found => Math.round(found.price) === 110)!;
+    const quiet = findZones(ranging).find(found => Math.round(found.price) === 110)!;
+
+    assert.equal(zone.highVolumeNode, true);
+    assert.ok(zone.strength > quiet.strength);
+  });
+
+  it('returns no zones without candles', () => {
+    assert.deepEqual(findZones([]), []);
+  });
+});
+
+describe('volumeProfile', () => {
+  it('spreads each candle\'s volume over its range without losing any', () => {
+    const profile = volumeProfile([candle(0, 10, 12, 10, 12, 100), candle(1, 12, 14, 12, 13, 50)], 4);
+
+    assert.deepEqual(profile.map(bin => [bin.low, bin.high]), [[10, 11], [11, 12], [12, 13], [13, 14]]);
+    assert.deepEqual(profile.map(bin => bin.volume), [50, 50, 25, 25]);
+  });
+});
+
+describe('fibonacciLevels', () => {
+  it('retraces down from the high and extends above it in an up swing', () => {
+    const levels = fibonacciLevels([candle(0, 10, 11, 10, 11), candle(1, 11, 20, 11, 19)])!;
+
+    assert.equal(levels.direction, 'up');
+    assert.deepEqual(levels.retracements.map(level => level.ratio), [0.236, 0.382, 0.5, 0.618, 0.786]);
+    close(levels.retracements[2].price, 15);
+    close(levels.extensions[0].price, 10 + 1.272 * 10);
+    close(levels.extensions[2].price, 10 + 2.618 * 10);
+  });
+
+  it('leaves out extensions that would fall to zero or below after a deep drop', () => {
+    // A 70% drop from 100 to 30: the 1.272 extension is at 10.96, the others below zero
+    const levels = fibonacciLevels([candle(0, 95, 100, 94, 96), candle(1, 96, 97, 30, 31)])!;
+
+    assert.equal(levels.direction, 'down');
+    assert.equal(levels.extensions.length, 1);
+    assert.equal(levels.extensions[0].ratio, 1.272);
+    close(levels.extensions[0].price, 100 - 1.272 * 70);
+    close(levels.retracements[4].price, 30 + 0.786 * 70);
+  });
+
+  it('is null for flat or single candles', () => {
+    assert.equal(fibonacciLevels([candle(0, 1, 1, 1, 1)]), null);
+    assert.equal(fibonacciLevels([candle(0, 1, 1, 1, 1), candle(1, 1, 1, 1, 1)]), null);
+  });
+});
@@ -0,0 +1,35 @@
+// test/services/news.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NewsService } from '../../src/services/news';
+import { HttpTransport } from '../../src/types/service';
+
+const FEED = 'http://feeds.test/rss';
+
+const RSS = `<?xml version="1.0"?>
+<rss><channel>
+  <item>
+    <title>Bitcoin ETF flows slow</title>
+    <description>Nothing about other tokens</description>
+    <link>http://feeds.test/btc</link>
+    <pubDate>Mon, 20 Jan 2025 10:00:00 GMT</pubDate>
+  </item>
+</channel></rss>`;
+
+describe('NewsService', () => {
+  it('returns an empty neutral analysis when no article matches', async () => {
+    const requested: string[] = [];
+    const transport: HttpTransport = async url => {
+      requested.push(url);
+      return new Response(RSS, { headers: { 'content-type': 'application/rss+xml' } });
+    };
+    const news = new NewsService('key', { feeds: [FEED] }, { transport, clock: () => Date.UTC(2025, 0, 20) });
+
+    const analysis = await news.getNewsAnalysis('VINE', 'Vine Coin');
+
+    assert.deepEqual(analysis.articles, []);
+    assert.equal(analysis.aiAnalysis.marketSentiment, 'neutral');
+    assert.equal(analysis.aiAnalysis.riskLevel, 'unknown');
+    assert.deepEqual(requested, [FEED], 'OpenAI is not called');
+  });
+});
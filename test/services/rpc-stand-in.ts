@@ -0,0 +1,93 @@
+// test/services/rpc-stand-in.ts
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '../../src/constants/token';
+import { HttpTransport } from '../../src/types/service';
+
+export const RPC_URL = 'http://rpc.test/';
+export const BIRDEYE_URL = 'http://birdeye.test';
+
+export const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+export const MINT_AUTHORITY = 'So11111111111111111111111111111111111111112';
+export const FREEZE_AUTHORITY = 'Ey9dFBdHvpNWxS4mN1rMUVdn8VJ5P6UwAbHZ8U8D2y5N';
+// Above 2^53, so only an exact read gets every digit right
+export const SUPPLY = BigInt('92233720368547758');
+
+/**
+ * Raw SPL mint account bytes: u32 option + mint authority, u64 supply,
+ * u8 decimals, bool initialized, u32 option + freeze authority.
+ */
+export function encodeMint(fields: {
+  supply: bigint;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+}): Buffer {
+  const data = Buffer.alloc(82);
+  const authority = (offset: number, key: string | null) => {
+    data.writeUInt32LE(key ? 1 : 0, offset);
+    if (key) new PublicKey(key).toBuffer().copy(data, offset + 4);
+  };
+  authority(0, fields.mintAuthority);
+  data.writeBigUInt64LE(fields.supply, 36);
+  data.writeUInt8(fields.decimals, 44);
+  data.writeUInt8(1, 45);
+  authority(46, fields.freezeAuthority);
+  return data;
+}
+
+export function accountInfo(data: Buffer, owner: string = TOKEN_PROGRAM_ID) {
+  return {
+    context: { slot: 250_000_000 },
+    value: { data: [data.toString('base64'), 'base64'], executable: false, lamports: 1_461_600, owner }
+  };
+}
+
+export const json = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+/**
+ * A local stand-in for the Solana RPC and Birdeye endpoints. `rpc` answers
+ * each JSON-RPC call; Birdeye reports 5 decimals and a float supply.
+ */
+export function standIn(rpc: (method: string, params: unknown[]) => Response): {
+  transport: HttpTransport;
+  calls: string[];
+} {
+  const calls: string[] = [];
+  const transport: HttpTransport = async (url, init) => {
+    if (url === RPC_URL) {
+      const { id, method, params } = JSON.parse(String(init?.body));
+      calls.push(`rpc ${method}`);
+      const response = rpc(method, params);
+      const body = await response.json();
+      return json(body && typeof body === 'object' && 'jsonrpc' in body ? { ...body, id } : body, response.status);
+    }
+
+    const { pathname } = new URL(url);
+    calls.push(`birdeye ${pathname}`);
+    if (pathname === '/defi/v3/token/meta-data/single') {
+      return json({
+        success: true,
+        data: {
+          address: MINT,
+          symbol: 'BONK',
+          name: 'Bonk',
+          decimals: 5,
+          mint_authority: null,
+          freeze_authority: null
+        }
+      });
+    }
+    if (pathname === '/defi/v3/token/market-data') {
+      return json({
+        success: true,
+        data: { address: MINT, price: 0.00002, liquidity: 1_000_000, supply: 88_000_000_000_000.5, holders: 900_000, volume_24h: 1.5 }
+      });
+    }
+    return json({ success: false, message: 'not found' }, 404);
+  };
+  return { transport, calls };
+}
+
+export const rpcResult = (result: unknown) => json({ jsonrpc: '2.0', id: 0, result });
+export const rpcError = (code: number, message: string) => json({ jsonrpc: '2.0', id: 0, error: { code, message } });
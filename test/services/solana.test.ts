@@ -0,0 +1,146 @@
+// test/services/solana.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SolanaRpcClient } from '../../src/services/solana';
+import { OnChainService } from '../../src/services/onchain';
+import { TOKEN_2022_PROGRAM_ID } from '../../src/constants/token';
+import { ProviderError, RateLimitError, SchemaMismatchError, TokenNotFoundError } from '../../src/utils/errors';
+import { createFixtureSession } from '../../src/utils/fixtures';
+import {
+  BIRDEYE_URL,
+  FREEZE_AUTHORITY,
+  MINT,
+  MINT_AUTHORITY,
+  RPC_URL,
+  SUPPLY,
+  accountInfo,
+  encodeMint,
+  json,
+  rpcError,
+  rpcResult,
+  standIn
+} from './rpc-stand-in';
+
+const MINT_DATA = encodeMint({ supply: SUPPLY, decimals: 6, mintAuthority: MINT_AUTHORITY, freezeAuthority: FREEZE_AUTHORITY });
+
+describe('SolanaRpcClient', () => {
+  it('decodes supply, decimals and authorities from the mint account', async () => {
+    const { transport } = standIn(() => rpcResult(accountInfo(MINT_DATA)));
+    const mint = await new SolanaRpcClient(RPC_URL, { transport }).getMint(MINT);
+
+    assert.deepEqual(mint, {
+      address: MINT,
+      programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+      slot: 250_000_000,
+      supply: SUPPLY,
+      decimals: 6,
+      mintAuthority: MINT_AUTHORITY,
+      freezeAuthority: FREEZE_AUTHORITY,
+      isInitialized: true
+    });
+  });
+
+  it('reads revoked authorities as null and accepts Token-2022 mints', async () => {
+    const data = encodeMint({ supply: BigInt(1), decimals: 9, mintAuthority: null, freezeAuthority: null });
+    const { transport } = standIn(() => rpcResult(accountInfo(data, TOKEN_2022_PROGRAM_ID)));
+    const mint = await new SolanaRpcClient(RPC_URL, { transport }).getMint(MINT);
+
+    assert.equal(mint.programId, TOKEN_2022_PROGRAM_ID);
+    assert.equal(mint.mintAuthority, null);
+    assert.equal(mint.freezeAuthority, null);
+  });
+
+  it('throws TokenNotFoundError for a missing account or a non-token owner', async () => {
+    const missing = standIn(() => rpcResult({ context: { slot: 1 }, value: null }));
+    await assert.rejects(new SolanaRpcClient(RPC_URL, { transport: missing.transport }).getMint(MINT), TokenNotFoundError);
+
+    const wallet = standIn(() => rpcResult(accountInfo(MINT_DATA, '11111111111111111111111111111111')));
+    await assert.rejects(new SolanaRpcClient(RPC_URL, { transport: wallet.transport }).getMint(MINT), TokenNotFoundError);
+  });
+
+  it('rejects account data too short for a mint', async () => {
+    const { transport } = standIn(() => rpcResult(accountInfo(MINT_DATA.subarray(0, 40))));
+    await assert.rejects(new SolanaRpcClient(RPC_URL, { transport }).getMint(MINT), (error: unknown) =>
+      error instanceof ProviderError && /too short for a mint: 40 bytes/.test(error.message)
+    );
+  });
+
+  it('surfaces JSON-RPC errors, HTTP errors and malformed responses as typed errors', async () => {
+    const failing = standIn(() => rpcError(-32602, 'Invalid param: WrongSize'));
+    await assert.rejects(new SolanaRpcClient(RPC_URL, { transport: failing.transport }).getMint(MINT), (error: unknown) =>
+      error instanceof ProviderError && error.provider === 'solana-rpc' && /WrongSize \(-32602\)/.test(error.message)
+    );
+
+    const limited = standIn(() => json({ error: 'slow down' }, 429));
+    await assert.rejects(new SolanaRpcClient(RPC_URL, { transport: limited.transport }).getMint(MINT), RateLimitError);
+
+    const malformed = standIn(() => rpcResult({ value: 'nope' }));
+    await assert.rejects(new SolanaRpcClient(RPC_URL, { transport: malformed.transport }).getMint(MINT), SchemaMismatchError);
+  });
+});
+
+describe('OnChainService', () => {
+  const baseUrls = { birdeye: BIRDEYE_URL };
+
+  it('takes decimals, exact supply and authorities from RPC when configured', async () => {
+    const { transport } = standIn(() => rpcResult(accountInfo(MINT_DATA)));
+    const service = new OnChainService('key', { transport, baseUrls, solanaRpcUrl: RPC_URL });
+    const token = await service.getTokenData(MINT);
+
+    assert.equal(token.source, 'rpc');
+    assert.equal(token.decimals, 6);
+    assert.equal(token.totalSupply, SUPPLY);
+    assert.equal(token.mintAuthority, MINT_AUTHORITY);
+    assert.equal(token.freezeAuthority, FREEZE_AUTHORITY);
+    // Name, symbol and holders still come from Birdeye
+    assert.equal(token.symbol, 'BONK');
+    assert.equal(token.holderCount, 900_000);
+  });
+
+  it('falls back to Birdeye when the RPC request fails', async () => {
+    const { transport, calls } = standIn(() => rpcError(-32005, 'Node is behind'));
+    const token = await new OnChainService('key', { transport, baseUrls, solanaRpcUrl: RPC_URL }).getTokenData(MINT);
+
+    assert.ok(calls.includes('rpc getAccountInfo'));
+    assert.equal(token.source, 'birdeye');
+    assert.equal(token.decimals, 5);
+    // 88,000,000,000,000.5 tokens at 5 decimals, converted without float multiplication
+    assert.equal(token.totalSupply, BigInt('8800000000000050000'));
+    assert.equal(token.mintAuthority, null);
+  });
+
+  it('does not call RPC when no endpoint is configured', async () => {
+    const { transport, calls } = standIn(() => rpcResult(accountInfo(MINT_DATA)));
+    const service = new OnChainService('key', { transport, baseUrls });
+    const token = await service.getTokenData(MINT);
+
+    assert.equal(service.usesRpc, false);
+    assert.equal(token.source, 'birdeye');
+    assert.ok(!calls.some(call => call.startsWith('rpc')));
+  });
+
+  it('replays a recorded RPC session without the stand-in', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rpc-fixtures-'));
+    try {
+      const { transport } = standIn(() => rpcResult(accountInfo(MINT_DATA)));
+      const recorder = createFixtureSession(dir, 'record', transport);
+      const recorded = await new OnChainService('key', { transport: recorder.transport, baseUrls, solanaRpcUrl: RPC_URL })
+        .getTokenData(MINT);
+
+      const replay = createFixtureSession(dir, 'replay');
+      const service = new OnChainService('key', { transport: replay.transport, baseUrls, solanaRpcUrl: RPC_URL });
+      // A second read uses a later JSON-RPC id and still finds its fixture
+      await service.getTokenData(MINT);
+      const replayed = await service.getTokenData(MINT);
+
+      assert.equal(replayed.source, 'rpc');
+      assert.equal(replayed.totalSupply, recorded.totalSupply);
+      assert.equal(replayed.freezeAuthority, recorded.freezeAuthority);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,46 @@
+// test/utils/fixtures.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFixtureSession } from '../../src/utils/fixtures';
+
+const RPC_URL = 'http://rpc.test/';
+
+const rpcCall = (id: number) => ({
+  method: 'POST',
+  body: JSON.stringify({ jsonrpc: '2.0', id, method: 'getAccountInfo', params: ['mint'] })
+});
+
+describe('fixture sessions', () => {
+  it('replays JSON-RPC calls whatever their request id', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fixtures-'));
+    try {
+      const recorder = createFixtureSession(dir, 'record', async () => new Response('{"result":1}'));
+      await recorder.transport(RPC_URL, rpcCall(1));
+      await recorder.transport(RPC_URL, rpcCall(7));
+      assert.equal(readdirSync(dir).filter(file => file !== 'manifest.json').length, 1);
+
+      const replay = createFixtureSession(dir, 'replay');
+      const response = await replay.transport(RPC_URL, rpcCall(42));
+      assert.deepEqual(await response.json(), { result: 1 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('still tells different RPC calls apart', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fixtures-'));
+    try {
+      const recorder = createFixtureSession(dir, 'record', async () => new Response('{}'));
+      await recorder.transport(RPC_URL, rpcCall(1));
+
+      const replay = createFixtureSession(dir, 'replay');
+      const other = { method: 'POST', body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getSlot', params: [] }) };
+      await assert.rejects(replay.transport(RPC_URL, other), /No recorded fixture/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,14 @@
+// test/utils/http.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_BASE_URLS } from '../../src/constants/providers';
+import { resolveServiceOptions } from '../../src/utils/http';
+
+describe('resolveServiceOptions', () => {
+  it('keeps the default for base URLs passed as undefined', () => {
+    const { baseUrls } = resolveServiceOptions({ baseUrls: { birdeye: undefined, twitter: 'http://twitter.test/' } });
+    assert.equal(baseUrls.birdeye, DEFAULT_BASE_URLS.birdeye);
+    assert.equal(baseUrls.twitter, 'http://twitter.test');
+    assert.equal(baseUrls.openai, DEFAULT_BASE_URLS.openai);
+  });
+});